@@ -1,41 +1,168 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { AppState, WatchInfo, MarketingScenario, UserPreferences, MovieAssociation } from './types';
+import { AppState, WatchInfo, MarketingScenario, Persona, MovieAssociation, HistoryItem, PipelineMode, EraVariant, BatchItem, SupplementaryShot, IdentificationCandidate } from './types';
 import Camera from './components/Camera';
 import ResultView from './components/ResultView';
 import InvestorView from './components/InvestorView';
-import { identifyWatch, transformEra, vectorizeImage } from './services/geminiService';
+import HistoryView from './components/HistoryView';
+import PersonaManager from './components/PersonaManager';
+import BatchView from './components/BatchView';
+import CandidatePicker from './components/CandidatePicker';
+import CollectionView from './components/CollectionView';
+import PortfolioView from './components/PortfolioView';
+import WatchlistView from './components/WatchlistView';
+import { identifyWatch, transformEra, vectorizeImage } from './services/aiProvider';
+import { saveHistoryItem, createHistoryId } from './services/historyService';
+import { applySerialCheck } from './services/serialDecoder';
+import { IdentificationChoice, findPriorCorrection, needsConfirmation, applyCandidate, logIdentificationChoice } from './services/correctionService';
+import { processBatchItem } from './services/batchService';
+import { addToCollection, getCollectionEntry, linkScanIfOwned } from './services/collectionService';
+import { resizeImage } from './services/imageService';
+import { MAX_STALE_DAYS, loadStaleDays, saveStaleDays } from './services/marketCache';
+import { DISPLAY_CURRENCIES, loadDisplayCurrency, saveDisplayCurrency } from './services/currencyService';
+import { checkWatchlist } from './services/watchlistService';
+import { TemporalError, TemporalErrorKind, classifyError } from './services/errors';
+import { computeImageHash, findCachedIdentification, cacheIdentification } from './services/identificationCache';
+import { runWithConcurrency } from './services/taskQueue';
+import { MontageFrame } from './services/montageService';
+import { loadPersonas, savePersonas, loadActivePersonaId, saveActivePersonaId } from './services/personaService';
+
+const PIPELINE_MODE_KEY = 'chronoportal.pipelineMode';
+const VARIANT_COUNT_KEY = 'chronoportal.variantCount';
+const MAX_VARIANTS = 4;
+// Image generation is heavy; keep at most two renders in flight.
+const VARIANT_CONCURRENCY = 2;
+const BATCH_CONCURRENCY = 2;
+
+// Shape used to render a dossier that is still streaming in.
+const EMPTY_WATCH: WatchInfo = {
+  modelName: '',
+  releaseYear: '',
+  eraContext: '',
+  clothingDescription: '',
+  environmentDescription: '',
+  historicalFunFact: '',
+  marketingScenarios: [],
+  forensicVerification: [],
+  associatedMovies: [],
+};
+
+// An identification waiting on the user to confirm or pick an alternate.
+interface PendingIdentification {
+  base64: string;
+  info: WatchInfo;
+  blueprintUrl?: string;
+  hash: string | null;
+  mode: PipelineMode;
+  priorCorrection: IdentificationChoice | null;
+}
+
+const ERROR_DISPLAY: Record<TemporalErrorKind, { title: string; icon: string }> = {
+  QUOTA: { title: 'Temporal Overload', icon: 'fa-gauge-high' },
+  SAFETY: { title: 'Transmission Blocked', icon: 'fa-ban' },
+  NO_IMAGE: { title: 'Portal Collapsed', icon: 'fa-image' },
+  MALFORMED_RESPONSE: { title: 'Dossier Corrupted', icon: 'fa-file-circle-exclamation' },
+  NETWORK: { title: 'Temporal Link Severed', icon: 'fa-wifi' },
+  UNKNOWN: { title: 'Temporal Link Severed', icon: 'fa-exclamation-triangle' },
+};
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.IDLE);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [blueprintImage, setBlueprintImage] = useState<string | null>(null);
   const [transformedImage, setTransformedImage] = useState<string | null>(null);
+  const [variants, setVariants] = useState<EraVariant[]>([]);
+  const [pendingVariants, setPendingVariants] = useState(0);
+  const historyItemRef = useRef<HistoryItem | null>(null);
+  // Timeline renders keyed by `${year}@${personaId}`; the ref serves lookups mid-montage.
+  const yearRendersRef = useRef<Record<string, string>>({});
+  const [yearRenders, setYearRenders] = useState<Record<string, string>>({});
   const [watchInfo, setWatchInfo] = useState<WatchInfo | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [streamingWatch, setStreamingWatch] = useState<Partial<WatchInfo> | null>(null);
+  const [pendingIdentification, setPendingIdentification] = useState<PendingIdentification | null>(null);
+  const [isOwned, setIsOwned] = useState(false);
+  const [appError, setAppError] = useState<TemporalError | null>(null);
+  const retryActionRef = useRef<(() => void) | null>(null);
   const [isPulsing, setIsPulsing] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [isCompatible, setIsCompatible] = useState(true);
   const [envError, setEnvError] = useState<string | null>(null);
   const [isReTransmuting, setIsReTransmuting] = useState(false);
+  const [isGeneratingBlueprint, setIsGeneratingBlueprint] = useState(false);
+  const [pipelineMode, setPipelineMode] = useState<PipelineMode>(
+    () => (localStorage.getItem(PIPELINE_MODE_KEY) as PipelineMode) || 'fast'
+  );
+  const [variantCount, setVariantCount] = useState<number>(
+    () => Number(localStorage.getItem(VARIANT_COUNT_KEY)) || 1
+  );
+  const [marketStaleDays, setMarketStaleDays] = useState<number>(loadStaleDays);
+  const [displayCurrency, setDisplayCurrency] = useState<string>(loadDisplayCurrency);
+  // Price alerts raised since the watchlist was last opened.
+  const [unseenAlerts, setUnseenAlerts] = useState(0);
+  // Bumped whenever the background check stores a result, so an open watchlist reloads.
+  const [watchlistVersion, setWatchlistVersion] = useState(0);
   
   const [elapsedTime, setElapsedTime] = useState(0);
   const timerRef = useRef<number | null>(null);
 
-  const [userPrefs, setUserPrefs] = useState<UserPreferences>({
-    gender: '', age: '', country: '', customYear: ''
-  });
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  const [activePersonaId, setActivePersonaId] = useState<string | null>(loadActivePersonaId);
+  const [personaStorageError, setPersonaStorageError] = useState(false);
+
+  const activePersona = personas.find(p => p.id === activePersonaId) || null;
 
-  const hasActivePersona = Boolean(userPrefs.gender || userPrefs.age || userPrefs.country || userPrefs.customYear);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  // Batches run back to back so uploads never exceed BATCH_CONCURRENCY in flight.
+  const batchRunRef = useRef<Promise<unknown>>(Promise.resolve());
 
   useEffect(() => {
     const isSecure = window.isSecureContext;
     if (!isSecure && window.location.hostname !== 'localhost') {
-      setIsCompatible(false);
-      setEnvError("Security Breach: ChronoPortal requires an encrypted HTTPS connection to access temporal sensors.");
+      // Live sensors need HTTPS; photo uploads keep working without it.
+      setEnvError("Security Breach: Live temporal sensors require an encrypted HTTPS connection. Upload photos instead.");
     }
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem(PIPELINE_MODE_KEY, pipelineMode);
+  }, [pipelineMode]);
+
+  useEffect(() => {
+    localStorage.setItem(VARIANT_COUNT_KEY, String(variantCount));
+  }, [variantCount]);
+
+  useEffect(() => {
+    saveStaleDays(marketStaleDays);
+  }, [marketStaleDays]);
+
+  useEffect(() => {
+    saveDisplayCurrency(displayCurrency);
+  }, [displayCurrency]);
+
+  const handleAlert = useCallback(() => setUnseenAlerts(count => count + 1), []);
+
+  useEffect(() => {
+    // Watched prices are re-checked on open and whenever the connection comes back.
+    const handleChecked = () => setWatchlistVersion(version => version + 1);
+    let stopCheck = checkWatchlist(handleAlert, handleChecked);
+    const handleOnline = () => {
+      stopCheck();
+      stopCheck = checkWatchlist(handleAlert, handleChecked);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      stopCheck();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [handleAlert]);
+
+  useEffect(() => {
+    setPersonaStorageError(!savePersonas(personas));
+  }, [personas]);
+
+  useEffect(() => {
+    saveActivePersonaId(activePersonaId);
+  }, [activePersonaId]);
+
   useEffect(() => {
     const isRunning = state === AppState.IDENTIFYING || state === AppState.TRANSFORMING || isReTransmuting;
     
@@ -56,53 +183,209 @@ const App: React.FC = () => {
     };
   }, [state, isReTransmuting]);
 
-  const handleCapture = useCallback(async (base64: string) => {
-    setIsPulsing(true);
-    setTimeout(() => setIsPulsing(false), 300);
-    
+  const clearYearRenders = () => {
+    yearRendersRef.current = {};
+    setYearRenders({});
+  };
+
+  const failWith = useCallback((err: unknown, retry: () => void) => {
+    console.error(err);
+    setAppError(classifyError(err));
+    retryActionRef.current = retry;
+    setState(AppState.ERROR);
+  }, []);
+
+  /**
+   * Renders `variantCount` takes of one look with capped parallelism. The first
+   * take to land is shown immediately; every take joins the session carousel.
+   * Takes are returned in the order they finished, so the first is the one shown.
+   * Takes rendered for a persona are keyed and labelled as their own look.
+   */
+  const generateVariants = useCallback(async (
+    base64: string,
+    watch: WatchInfo,
+    lookKey: string,
+    lookLabel: string,
+    scenario?: MarketingScenario,
+    skipWatermark: boolean = false,
+    persona: Persona | null = activePersona
+  ): Promise<string[]> => {
+    const finished: string[] = [];
+    const batchId = Date.now().toString(36);
+    const key = persona ? `${lookKey}@${persona.id}` : lookKey;
+    const label = persona ? `${lookLabel} // ${persona.name}` : lookLabel;
+    setPendingVariants(variantCount);
+
+    const tasks = Array.from({ length: variantCount }, (_, idx) => async () => {
+      try {
+        const image = await transformEra(base64, watch, persona, scenario, skipWatermark);
+        setVariants(prev => [...prev, { id: `${key}-${batchId}-${idx}`, lookKey: key, lookLabel: label, image, isFavorite: false }]);
+        finished.push(image);
+        if (finished.length === 1) setTransformedImage(image);
+        return image;
+      } finally {
+        setPendingVariants(count => Math.max(0, count - 1));
+      }
+    });
+
+    const results = await runWithConcurrency(tasks, VARIANT_CONCURRENCY);
+    if (finished.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return finished;
+  }, [variantCount, activePersona]);
+
+  // Era synthesis and archiving, once the watch's identity is settled.
+  const openPortal = useCallback(async (base64: string, info: WatchInfo, blueprintUrl?: string) => {
+    setWatchInfo(info);
+    try {
+      setState(AppState.TRANSFORMING);
+      // The first take to finish is the one on screen, so it is the one archived.
+      const [result] = await generateVariants(base64, info, 'base', info.releaseYear);
+
+      setState(AppState.RESULT);
+
+      // Archive the completed scan locally
+      const historyItem: HistoryItem = {
+        id: createHistoryId(),
+        timestamp: Date.now(),
+        originalImage: `data:image/jpeg;base64,${base64}`,
+        blueprintImage: blueprintUrl,
+        transformedImage: result,
+        watch: info
+      };
+      historyItemRef.current = historyItem;
+      saveHistoryItem(historyItem)
+        .then(() => linkScanIfOwned(info.modelName, historyItem.id))
+        .catch(err => console.error("Archive write failed", err));
+    } catch (err) {
+      failWith(err, () => openPortal(base64, info, blueprintUrl));
+    }
+  }, [failWith, generateVariants]);
+
+  // Clears the previous scan so a new one starts from the identifying screen.
+  const beginScan = useCallback((base64: string) => {
     setElapsedTime(0);
     setState(AppState.IDENTIFYING);
     setOriginalImage(`data:image/jpeg;base64,${base64}`);
-    setErrorMessage(null);
+    setBlueprintImage(null);
+    setTransformedImage(null);
+    setVariants([]);
+    historyItemRef.current = null;
+    clearYearRenders();
+    setWatchInfo(null);
+    setStreamingWatch(null);
+    setAppError(null);
+  }, []);
+
+  /**
+   * Sends an uncertain identification to the candidate picker and returns
+   * true; otherwise caches it and returns false so the caller can go on.
+   */
+  const awaitConfirmation = useCallback((base64: string, info: WatchInfo, blueprintUrl: string | undefined, hash: string | null, mode: PipelineMode): boolean => {
+    const priorCorrection = findPriorCorrection(info.modelName);
+    if (needsConfirmation(info, priorCorrection)) {
+      setPendingIdentification({ base64, info, blueprintUrl, hash, mode, priorCorrection });
+      setState(AppState.CONFIRMING);
+      return true;
+    }
+    if (hash) cacheIdentification(hash, mode, info);
+    return false;
+  }, []);
+
+  const handleCapture = useCallback(async (base64: string, dialCrop?: string, shots: SupplementaryShot[] = []) => {
+    setIsPulsing(true);
+    setTimeout(() => setIsPulsing(false), 300);
+    beginScan(base64);
 
     try {
-      // Step 1: Pre-process image for structural blueprint matching
-      const blueprintBase64 = await vectorizeImage(base64);
+      // Step 1: Reuse a prior identification if this capture matches one we've seen.
+      // A multi-shot set always gets a fresh audit so the extra views are actually read.
+      const hash = await computeImageHash(base64).catch(() => null);
+      const cached = hash && shots.length === 0 ? findCachedIdentification(hash, pipelineMode) : null;
+
+      let info: WatchInfo;
+      let blueprintUrl: string | undefined;
+      if (cached) {
+        info = cached;
+      } else {
+        // Step 2: In forensic mode, pre-process image for structural blueprint matching
+        let blueprintBase64: string | undefined;
+        if (pipelineMode === 'forensic') {
+          try {
+            blueprintBase64 = await vectorizeImage(base64);
+            blueprintUrl = `data:image/jpeg;base64,${blueprintBase64}`;
+            setBlueprintImage(blueprintUrl);
+          } catch (err) {
+            console.warn("Blueprint extraction failed, continuing with photo-only identification", err);
+          }
+        }
+
+        // Step 3: Identify from the photo, plus the dial crop, blueprint and extra shots when we have them
+        info = await identifyWatch(base64, blueprintBase64, setStreamingWatch, dialCrop, shots);
+        // Back the model's reading of the serial with a deterministic decode
+        if (info.casebackText) info = applySerialCheck(info, info.casebackText);
+
+        // Step 4: Have the user settle an uncertain identification before any synthesis runs
+        if (awaitConfirmation(base64, info, blueprintUrl, hash, blueprintBase64 ? 'forensic' : 'fast')) return;
+      }
+
+      // Step 5: Synthesize the era and archive
+      await openPortal(base64, info, blueprintUrl);
+    } catch (err) {
+      failWith(err, () => handleCapture(base64, dialCrop, shots));
+    }
+  }, [pipelineMode, failWith, openPortal, beginScan, awaitConfirmation]);
+
+  const handleConfirmCandidate = (candidate: IdentificationCandidate) => {
+    const pending = pendingIdentification;
+    if (!pending) return;
+    setPendingIdentification(null);
+    // Logged so the same misreading can be offered the user's answer next time
+    logIdentificationChoice(pending.info.modelName, candidate);
+    let info = applyCandidate(pending.info, candidate);
+    // A different reference means a different release year to check the serial against
+    if (info !== pending.info && info.casebackText) info = applySerialCheck(info, info.casebackText);
+    // Cache the confirmed identity so a matching capture skips the picker
+    if (pending.hash) cacheIdentification(pending.hash, pending.mode, info);
+    openPortal(pending.base64, info, pending.blueprintUrl);
+  };
+
+  const handleGenerateBlueprint = async () => {
+    if (!originalImage || blueprintImage || isGeneratingBlueprint || state !== AppState.RESULT) return;
+    setIsGeneratingBlueprint(true);
+    try {
+      const blueprintBase64 = await vectorizeImage(originalImage.split(',')[1]);
       setBlueprintImage(`data:image/jpeg;base64,${blueprintBase64}`);
-      
-      // Step 2: Use both original and blueprint for forensic ID
-      const info = await identifyWatch(base64, blueprintBase64);
-      setWatchInfo(info);
-      
-      setState(AppState.TRANSFORMING);
-      const result = await transformEra(base64, info, userPrefs);
-      setTransformedImage(result);
-      
-      setState(AppState.RESULT);
-    } catch (err: any) {
-      console.error(err);
-      setErrorMessage(err.message || "Temporal paradox detected. The artifact identification was severed.");
-      setState(AppState.ERROR);
+    } catch (err) {
+      failWith(err, () => {
+        setState(AppState.RESULT);
+        handleGenerateBlueprint();
+      });
+    } finally {
+      setIsGeneratingBlueprint(false);
     }
-  }, [userPrefs]);
+  };
 
   const handleSelectScenario = async (scenario: MarketingScenario) => {
-    if (!originalImage || !watchInfo || isReTransmuting) return;
+    if (!originalImage || !watchInfo || isReTransmuting || state !== AppState.RESULT) return;
     setElapsedTime(0);
     setIsReTransmuting(true);
     try {
       const base64 = originalImage.split(',')[1];
-      const result = await transformEra(base64, watchInfo, userPrefs, scenario, true);
-      setTransformedImage(result);
+      await generateVariants(base64, watchInfo, `scenario-${scenario.id}`, scenario.title, scenario, true);
     } catch (err) {
-      console.error("Scenario transformation failed", err);
+      failWith(err, () => {
+        setState(AppState.RESULT);
+        handleSelectScenario(scenario);
+      });
     } finally {
       setIsReTransmuting(false);
     }
   };
 
   const handleSelectMovie = async (movie: MovieAssociation) => {
-    if (!originalImage || !watchInfo || isReTransmuting) return;
+    if (!originalImage || !watchInfo || isReTransmuting || state !== AppState.RESULT) return;
     setElapsedTime(0);
     setIsReTransmuting(true);
     try {
@@ -114,17 +397,23 @@ const App: React.FC = () => {
         environmentPrompt: `a cinematic frame from the movie "${movie.movieTitle}".`,
         clothingPrompt: `period-accurate clothing as seen on ${movie.characterName} in ${movie.movieTitle}.`
       };
-      const result = await transformEra(base64, watchInfo, userPrefs, movieScenario, true);
-      setTransformedImage(result);
+      await generateVariants(base64, watchInfo, movieScenario.id, movie.movieTitle, movieScenario, true);
     } catch (err) {
-      console.error("Movie transformation failed", err);
+      failWith(err, () => {
+        setState(AppState.RESULT);
+        handleSelectMovie(movie);
+      });
     } finally {
       setIsReTransmuting(false);
     }
   };
 
-  const handleRefreshImage = async (activeScenario: MarketingScenario | null, activeMovie: MovieAssociation | null) => {
-    if (!originalImage || !watchInfo || isReTransmuting) return;
+  const handleRefreshImage = async (
+    activeScenario: MarketingScenario | null,
+    activeMovie: MovieAssociation | null,
+    persona: Persona | null = activePersona
+  ) => {
+    if (!originalImage || !watchInfo || isReTransmuting || state !== AppState.RESULT) return;
     setElapsedTime(0);
     setIsReTransmuting(true);
     try {
@@ -143,34 +432,229 @@ const App: React.FC = () => {
         finalScenario = activeScenario;
       }
 
-      const result = await transformEra(base64, watchInfo, userPrefs, finalScenario, (activeScenario !== null || activeMovie !== null));
-      setTransformedImage(result);
+      const lookKey = activeMovie ? `movie-${activeMovie.movieTitle}` : activeScenario ? `scenario-${activeScenario.id}` : 'base';
+      const lookLabel = activeMovie?.movieTitle || activeScenario?.title || watchInfo.releaseYear;
+      await generateVariants(base64, watchInfo, lookKey, lookLabel, finalScenario, (activeScenario !== null || activeMovie !== null), persona);
+    } catch (err) {
+      failWith(err, () => {
+        setState(AppState.RESULT);
+        handleRefreshImage(activeScenario, activeMovie, persona);
+      });
+    } finally {
+      setIsReTransmuting(false);
+    }
+  };
+
+  const handleSwitchPersona = (personaId: string | null, activeScenario: MarketingScenario | null, activeMovie: MovieAssociation | null) => {
+    if (isReTransmuting || state !== AppState.RESULT) return;
+    setActivePersonaId(personaId);
+    // State updates land after this render, so hand the new persona over directly.
+    handleRefreshImage(activeScenario, activeMovie, personas.find(p => p.id === personaId) || null);
+  };
+
+  /**
+   * Renders the current scene in an arbitrary year for the active persona,
+   * reusing an earlier render of the same year when there is one.
+   */
+  const renderYear = async (year: string): Promise<string> => {
+    if (!originalImage || !watchInfo) throw new Error("No artifact loaded.");
+    const key = `${year}@${activePersona?.id || 'none'}`;
+    const cached = yearRendersRef.current[key];
+    if (cached) return cached;
+
+    // Outside the release year the dossier's era descriptions no longer apply.
+    const yearScenario: MarketingScenario | undefined = year === watchInfo.releaseYear ? undefined : {
+      id: `year-${year}`,
+      title: year,
+      description: `Everyday life in ${year}.`,
+      environmentPrompt: `a typical street scene from ${year}`,
+      clothingPrompt: `period-accurate everyday clothing from ${year}`
+    };
+    const image = await transformEra(originalImage.split(',')[1], watchInfo, activePersona, yearScenario, true, year);
+    yearRendersRef.current = { ...yearRendersRef.current, [key]: image };
+    setYearRenders(yearRendersRef.current);
+    return image;
+  };
+
+  const handleSelectYear = async (year: string) => {
+    if (!originalImage || !watchInfo || isReTransmuting || state !== AppState.RESULT) return;
+    setElapsedTime(0);
+    setIsReTransmuting(true);
+    try {
+      setTransformedImage(await renderYear(year));
     } catch (err) {
-      console.error("Refresh failed", err);
+      failWith(err, () => {
+        setState(AppState.RESULT);
+        handleSelectYear(year);
+      });
     } finally {
       setIsReTransmuting(false);
     }
   };
 
+  /**
+   * Renders the montage years one after another under the same lock as any
+   * other re-transmutation, so no other generation can start mid-montage.
+   */
+  const handleRenderMontage = async (years: string[], onProgress: (done: number) => void): Promise<MontageFrame[]> => {
+    if (isReTransmuting || state !== AppState.RESULT) throw new Error("Another render is already running.");
+    setElapsedTime(0);
+    setIsReTransmuting(true);
+    try {
+      const frames: MontageFrame[] = [];
+      // Sequential on purpose: each era render is a full image generation.
+      for (const [idx, year] of years.entries()) {
+        onProgress(idx);
+        frames.push({ year, image: await renderYear(year) });
+      }
+      return frames;
+    } finally {
+      setIsReTransmuting(false);
+    }
+  };
+
+  const cachedYears = Object.keys(yearRenders)
+    .filter(key => key.endsWith(`@${activePersona?.id || 'none'}`))
+    .map(key => key.split('@')[0]);
+
+  const runBatch = (queued: BatchItem[]) => {
+    const update = (id: string) => (patch: Partial<BatchItem>) =>
+      setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    batchRunRef.current = batchRunRef.current.then(() =>
+      runWithConcurrency(queued.map(item => () => processBatchItem(item, update(item.id))), BATCH_CONCURRENCY)
+    );
+  };
+
+  const handleBatchFiles = (files: File[]) => {
+    const queued: BatchItem[] = files.map(file => ({ id: createHistoryId(), file, status: 'queued' }));
+    setBatchItems(prev => [...prev, ...queued]);
+    setState(AppState.BATCH);
+    runBatch(queued);
+  };
+
+  const handleRetryBatchItem = (item: BatchItem) => {
+    setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'queued', error: undefined } : i));
+    runBatch([item]);
+  };
+
+  const handleOpenBatchItem = async (item: BatchItem) => {
+    if (!item.base64) return;
+    if (!item.watch) {
+      handleCapture(item.base64);
+      return;
+    }
+    // Reuse the row's identification rather than identifying again; cache hits were confirmed before.
+    const { base64, watch } = item;
+    beginScan(base64);
+    try {
+      if (!item.fromCache) {
+        const hash = await computeImageHash(base64).catch(() => null);
+        if (awaitConfirmation(base64, watch, undefined, hash, 'fast')) return;
+      }
+      await openPortal(base64, watch);
+    } catch (err) {
+      failWith(err, () => handleOpenBatchItem(item));
+    }
+  };
+
+  const handleSelectVariant = (variant: EraVariant) => {
+    setTransformedImage(variant.image);
+  };
+
+  const handleToggleFavorite = (variant: EraVariant) => {
+    const starring = !variant.isFavorite;
+    // One favorite per look; starring also brings the take on screen.
+    setVariants(prev => prev.map(v => v.lookKey === variant.lookKey
+      ? { ...v, isFavorite: v.id === variant.id ? starring : false }
+      : v));
+    setTransformedImage(variant.image);
+
+    if (starring && historyItemRef.current) {
+      const updated = { ...historyItemRef.current, transformedImage: variant.image };
+      historyItemRef.current = updated;
+      saveHistoryItem(updated).catch(err => console.error("Archive write failed", err));
+    }
+  };
+
+  useEffect(() => {
+    if (!watchInfo) {
+      setIsOwned(false);
+      return;
+    }
+    let cancelled = false;
+    getCollectionEntry(watchInfo.modelName)
+      .then(entry => { if (!cancelled) setIsOwned(Boolean(entry)); })
+      .catch(() => { if (!cancelled) setIsOwned(false); });
+    return () => { cancelled = true; };
+  }, [watchInfo?.modelName]);
+
+  const handleAddToCollection = async () => {
+    if (!watchInfo || !originalImage) return;
+    try {
+      const thumbnail = await resizeImage(originalImage, 240).catch(() => undefined);
+      await addToCollection(watchInfo, historyItemRef.current?.id, thumbnail);
+      setIsOwned(true);
+    } catch (err) {
+      console.error("Collection write failed", err);
+    }
+  };
+
+  const handleDecodeSerial = (text: string) => {
+    if (!watchInfo) return;
+    const updated = applySerialCheck(watchInfo, text);
+    setWatchInfo(updated);
+    if (historyItemRef.current) {
+      const item = { ...historyItemRef.current, watch: updated };
+      historyItemRef.current = item;
+      saveHistoryItem(item).catch(err => console.error("Archive write failed", err));
+    }
+  };
+
+  const handleOpenHistoryItem = (item: HistoryItem) => {
+    historyItemRef.current = item;
+    setOriginalImage(item.originalImage);
+    setBlueprintImage(item.blueprintImage || null);
+    setTransformedImage(item.transformedImage);
+    clearYearRenders();
+    setVariants([{ id: `archive-${item.id}`, lookKey: 'base', lookLabel: item.watch.releaseYear, image: item.transformedImage, isFavorite: true }]);
+    setWatchInfo(item.watch);
+    setStreamingWatch(null);
+    setAppError(null);
+    setElapsedTime(0);
+    setState(AppState.RESULT);
+  };
+
+  const closeOverlay = () => {
+    setState(watchInfo && transformedImage ? AppState.RESULT : AppState.IDLE);
+  };
+
+  const handleRetry = () => {
+    const retry = retryActionRef.current;
+    retryActionRef.current = null;
+    setAppError(null);
+    retry?.();
+  };
+
   const reset = () => {
+    retryActionRef.current = null;
     setState(AppState.IDLE);
     setOriginalImage(null);
     setBlueprintImage(null);
     setTransformedImage(null);
+    setVariants([]);
+    historyItemRef.current = null;
+    clearYearRenders();
     setWatchInfo(null);
-    setErrorMessage(null);
+    setStreamingWatch(null);
+    setPendingIdentification(null);
+    setAppError(null);
     setElapsedTime(0);
   };
 
-  if (!isCompatible) {
-    return (
-      <div className="h-screen w-screen bg-black flex flex-col items-center justify-center p-10 text-center">
-        <i className="fas fa-shield-alt text-4xl text-amber-500 mb-8"></i>
-        <h2 className="text-2xl font-bold mb-4 uppercase tracking-[0.2em] text-white">System Restriction</h2>
-        <p className="text-gray-400 mono text-sm leading-relaxed">{envError}</p>
-      </div>
-    );
-  }
+  // Render the result screen as soon as the dossier starts arriving; the portal image fills in later.
+  const displayWatch = watchInfo || (streamingWatch?.modelName ? { ...EMPTY_WATCH, ...streamingWatch } : null);
+  const isInFlight = state === AppState.IDENTIFYING || state === AppState.TRANSFORMING;
+  const showResult = Boolean(originalImage && displayWatch && (isInFlight || (state === AppState.RESULT && transformedImage)));
 
   return (
     <div className={`flex flex-col h-screen w-screen bg-black overflow-hidden relative ${isPulsing ? 'pulse-capture' : ''}`}>
@@ -189,22 +673,55 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-3 mt-2">
+            <button 
+              onClick={() => setState(AppState.HISTORY)}
+              disabled={state !== AppState.IDLE && state !== AppState.RESULT}
+              className="text-[10px] mono text-gray-400 border border-white/10 px-3 py-1.5 rounded flex items-center gap-1 hover:bg-white/5 transition-colors"
+            >
+              <i className="fas fa-box-archive"></i> Archive
+            </button>
+            <button 
+              onClick={() => setState(AppState.COLLECTION)}
+              disabled={state !== AppState.IDLE && state !== AppState.RESULT}
+              className="text-[10px] mono text-gray-400 border border-white/10 px-3 py-1.5 rounded flex items-center gap-1 hover:bg-white/5 transition-colors"
+            >
+              <i className="fas fa-vault"></i> Vault
+            </button>
+            <button 
+              onClick={() => {
+                setUnseenAlerts(0);
+                setState(AppState.WATCHLIST);
+              }}
+              disabled={state !== AppState.IDLE && state !== AppState.RESULT}
+              className="relative text-[10px] mono text-gray-400 border border-white/10 px-3 py-1.5 rounded flex items-center gap-1 hover:bg-white/5 transition-colors"
+            >
+              <i className="fas fa-bell"></i> Watch
+              {unseenAlerts > 0 && <div className="absolute top-0 right-0 w-2 h-2 bg-amber-500 rounded-full -mr-1 -mt-1 border border-black shadow-sm animate-pulse"></div>}
+            </button>
+            <button 
+              onClick={() => setState(AppState.BATCH)}
+              disabled={state !== AppState.IDLE && state !== AppState.RESULT}
+              className="relative text-[10px] mono text-gray-400 border border-white/10 px-3 py-1.5 rounded flex items-center gap-1 hover:bg-white/5 transition-colors"
+            >
+              <i className="fas fa-table-list"></i> Batch
+              {batchItems.some(item => item.status !== 'done' && item.status !== 'error') && <div className="absolute top-0 right-0 w-2 h-2 bg-blue-500 rounded-full -mr-1 -mt-1 border border-black shadow-sm animate-pulse"></div>}
+            </button>
             <button 
               onClick={() => setShowSettings(true)}
               disabled={state !== AppState.IDLE && state !== AppState.RESULT}
               className={`relative text-[10px] mono text-gray-400 border border-white/10 px-3 py-1.5 rounded flex items-center gap-1 hover:bg-white/5 transition-colors`}
             >
               <i className="fas fa-user-cog"></i> Persona
-              {hasActivePersona && <div className="absolute top-0 right-0 w-2 h-2 bg-purple-500 rounded-full -mr-1 -mt-1 border border-black shadow-sm"></div>}
+              {activePersona && <div className="absolute top-0 right-0 w-2 h-2 bg-purple-500 rounded-full -mr-1 -mt-1 border border-black shadow-sm"></div>}
             </button>
         </div>
       </header>
 
       {/* Primary Rendering Engine */}
       <main className="flex-1 relative overflow-hidden">
-        {state === AppState.IDLE || state === AppState.IDENTIFYING || state === AppState.TRANSFORMING ? (
+        {state === AppState.IDLE || (isInFlight && !showResult) ? (
           <div className="h-full relative">
-            <Camera onCapture={handleCapture} isProcessing={state !== AppState.IDLE} />
+            <Camera onCapture={handleCapture} onBatchFiles={handleBatchFiles} isProcessing={state !== AppState.IDLE} sensorError={envError} />
             
             {state !== AppState.IDLE && (
               <div className="absolute inset-0 bg-black/70 backdrop-blur-xl z-30 flex flex-col items-center justify-center p-10 text-center">
@@ -222,35 +739,87 @@ const App: React.FC = () => {
                   </h3>
                   <div className="h-1 w-12 bg-blue-500 mx-auto rounded-full"></div>
                   <p className="text-gray-400 text-sm mono font-medium max-w-[200px] mx-auto uppercase tracking-widest leading-relaxed">
-                    {state === AppState.IDENTIFYING ? 'Identifying Timepiece via Gemini 3 Flash...' : 'Opening Temporal Corridor...'}
+                    {state === AppState.IDENTIFYING
+                  ? (pipelineMode === 'forensic' ? 'Extracting Blueprint & Identifying Timepiece...' : 'Identifying Timepiece via Gemini 3 Flash...')
+                  : 'Opening Temporal Corridor...'}
                   </p>
                 </div>
               </div>
             )}
           </div>
-        ) : state === AppState.RESULT && watchInfo && transformedImage && originalImage && blueprintImage ? (
+        ) : showResult && displayWatch && originalImage ? (
           <ResultView 
             originalImage={originalImage}
             blueprintImage={blueprintImage}
             transformedImage={transformedImage}
-            watch={watchInfo}
+            watch={displayWatch}
+            isStreaming={!watchInfo}
             onReset={reset}
             onSelectScenario={handleSelectScenario}
             onSelectMovie={handleSelectMovie}
             onRefreshImage={handleRefreshImage}
             onShowInvestor={() => setState(AppState.INVESTOR)}
-            isTransmuting={isReTransmuting}
-            userPrefs={userPrefs}
+            isOwned={isOwned}
+            onAddToCollection={handleAddToCollection}
+            onRequestBlueprint={handleGenerateBlueprint}
+            isGeneratingBlueprint={isGeneratingBlueprint}
+            isTransmuting={isReTransmuting || state === AppState.TRANSFORMING}
+            variants={variants}
+            pendingVariantCount={pendingVariants}
+            onSelectVariant={handleSelectVariant}
+            onToggleFavorite={handleToggleFavorite}
+            personas={personas}
+            activePersonaId={activePersona?.id || null}
+            onSwitchPersona={handleSwitchPersona}
+            cachedYears={cachedYears}
+            onSelectYear={handleSelectYear}
+            onRenderMontage={handleRenderMontage}
+            onDecodeSerial={handleDecodeSerial}
             generationTime={elapsedTime}
           />
+        ) : state === AppState.CONFIRMING && pendingIdentification ? (
+          <CandidatePicker
+            originalImage={`data:image/jpeg;base64,${pendingIdentification.base64}`}
+            watch={pendingIdentification.info}
+            priorCorrection={pendingIdentification.priorCorrection}
+            onConfirm={handleConfirmCandidate}
+            onCancel={reset}
+          />
         ) : state === AppState.INVESTOR && watchInfo ? (
-          <InvestorView watch={watchInfo} onClose={() => setState(AppState.RESULT)} />
+          <InvestorView watch={watchInfo} onAlert={handleAlert} onClose={() => setState(AppState.RESULT)} />
+        ) : state === AppState.HISTORY ? (
+          <HistoryView onOpen={handleOpenHistoryItem} onClose={closeOverlay} />
+        ) : state === AppState.COLLECTION ? (
+          <CollectionView onOpenScan={handleOpenHistoryItem} onShowPortfolio={() => setState(AppState.PORTFOLIO)} onClose={closeOverlay} />
+        ) : state === AppState.PORTFOLIO ? (
+          <PortfolioView onClose={() => setState(AppState.COLLECTION)} />
+        ) : state === AppState.WATCHLIST ? (
+          <WatchlistView version={watchlistVersion} onAlert={handleAlert} onClose={closeOverlay} />
+        ) : state === AppState.BATCH ? (
+          <BatchView
+            items={batchItems}
+            onAddFiles={handleBatchFiles}
+            onRetry={handleRetryBatchItem}
+            onOpen={handleOpenBatchItem}
+            onClear={() => setBatchItems([])}
+            onClose={closeOverlay}
+          />
         ) : state === AppState.ERROR ? (
           <div className="h-full flex flex-col items-center justify-center p-10 text-center bg-zinc-950">
-            <i className="fas fa-exclamation-triangle text-3xl text-red-500 mb-6"></i>
-            <h3 className="text-2xl font-bold mb-3 uppercase tracking-wider">Temporal Link Severed</h3>
-            <p className="text-gray-400 mb-8 mono text-sm leading-relaxed">{errorMessage}</p>
-            <button onClick={reset} className="px-10 py-4 bg-white text-black font-bold rounded-2xl shadow-xl shadow-white/5 uppercase tracking-widest text-xs">Initialize Reboot</button>
+            <i className={`fas ${ERROR_DISPLAY[appError?.kind || 'UNKNOWN'].icon} text-3xl text-red-500 mb-6`}></i>
+            <h3 className="text-2xl font-bold mb-3 uppercase tracking-wider">{ERROR_DISPLAY[appError?.kind || 'UNKNOWN'].title}</h3>
+            <p className="text-gray-400 mb-8 mono text-sm leading-relaxed">{appError?.userMessage}</p>
+            <div className="flex flex-col gap-3 w-full max-w-xs">
+              {appError?.kind !== 'SAFETY' && retryActionRef.current && (
+                <button onClick={handleRetry} className="px-10 py-4 bg-blue-600 text-white font-bold rounded-2xl shadow-xl shadow-blue-500/10 uppercase tracking-widest text-xs flex items-center justify-center gap-2">
+                  <i className="fas fa-rotate-right"></i> Retry Transmission
+                </button>
+              )}
+              {watchInfo && transformedImage && originalImage && (
+                <button onClick={() => setState(AppState.RESULT)} className="px-10 py-4 glass text-white font-bold rounded-2xl uppercase tracking-widest text-xs">Return to Portal</button>
+              )}
+              <button onClick={reset} className="px-10 py-4 bg-white text-black font-bold rounded-2xl shadow-xl shadow-white/5 uppercase tracking-widest text-xs">Initialize Reboot</button>
+            </div>
           </div>
         ) : null}
       </main>
@@ -258,26 +827,82 @@ const App: React.FC = () => {
       {/* Settings Modal */}
       {showSettings && (
         <div className="absolute inset-0 z-[100] flex items-center justify-center p-6 bg-black/95 backdrop-blur-xl">
-          <div className="glass p-6 rounded-3xl w-full max-w-sm border-blue-500/30">
+          <div className="glass p-6 rounded-3xl w-full max-w-sm max-h-full overflow-y-auto border-blue-500/30">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-lg font-bold uppercase tracking-widest text-white">Persona Protocol</h3>
               <button onClick={() => setShowSettings(false)} className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center text-gray-400"><i className="fas fa-times"></i></button>
             </div>
             <div className="space-y-4 mb-8">
-                <select 
-                  value={userPrefs.gender} 
-                  className="w-full bg-black/50 border border-white/10 p-3 text-white rounded-xl appearance-none"
-                  onChange={(e) => setUserPrefs({...userPrefs, gender: e.target.value})}
-                >
-                  <option value="" disabled>Select Gender</option>
-                  <option value="Male">Male</option>
-                  <option value="Female">Female</option>
-                  <option value="Non-binary">Non-binary</option>
-                  <option value="Prefer not to say">Prefer not to say</option>
-                </select>
-                <input type="number" placeholder="Age" value={userPrefs.age} className="w-full bg-black/50 border border-white/10 p-3 text-white rounded-xl" onChange={(e) => setUserPrefs({...userPrefs, age: e.target.value})} />
-                <input type="text" placeholder="Country" value={userPrefs.country} className="w-full bg-black/50 border border-white/10 p-3 text-white rounded-xl" onChange={(e) => setUserPrefs({...userPrefs, country: e.target.value})} />
-                <input type="text" placeholder="Year Override (Optional)" value={userPrefs.customYear || ''} className="w-full bg-black/50 border border-white/10 p-3 text-white rounded-xl" onChange={(e) => setUserPrefs({...userPrefs, customYear: e.target.value})} />
+                <PersonaManager
+                  personas={personas}
+                  activeId={activePersona?.id || null}
+                  onChange={setPersonas}
+                  onActivate={setActivePersonaId}
+                />
+                {personaStorageError && (
+                  <p className="text-[10px] mono text-amber-400 uppercase">Local storage is full; persona changes will not survive a reload. Try a smaller selfie.</p>
+                )}
+                <div className="space-y-2 pt-2">
+                  <div className="flex justify-between items-center">
+                    <p className="text-[10px] mono text-gray-500 uppercase font-bold tracking-widest">Variants per Render</p>
+                    <span className="text-xs mono text-blue-400 font-bold">{variantCount}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={1}
+                    max={MAX_VARIANTS}
+                    step={1}
+                    value={variantCount}
+                    onChange={(e) => setVariantCount(Number(e.target.value))}
+                    className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <div className="space-y-2 pt-2">
+                  <div className="flex justify-between items-center">
+                    <p className="text-[10px] mono text-gray-500 uppercase font-bold tracking-widest">Refresh Prices After</p>
+                    <span className="text-xs mono text-blue-400 font-bold">{marketStaleDays}d</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={1}
+                    max={MAX_STALE_DAYS}
+                    step={1}
+                    value={marketStaleDays}
+                    onChange={(e) => setMarketStaleDays(Number(e.target.value))}
+                    className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <div className="space-y-2 pt-2">
+                  <p className="text-[10px] mono text-gray-500 uppercase font-bold tracking-widest">Display Currency</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {DISPLAY_CURRENCIES.map(code => (
+                      <button
+                        key={code}
+                        onClick={() => setDisplayCurrency(code)}
+                        className={`px-2.5 py-1 rounded-full text-[10px] mono font-bold border transition-colors ${displayCurrency === code ? 'bg-blue-600/20 border-blue-500 text-white' : 'bg-black/50 border-white/10 text-gray-400'}`}
+                      >
+                        {code}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2 pt-2">
+                  <p className="text-[10px] mono text-gray-500 uppercase font-bold tracking-widest">Scan Pipeline</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['fast', 'forensic'] as PipelineMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setPipelineMode(mode)}
+                        className={`p-3 rounded-xl border text-left transition-colors ${pipelineMode === mode ? 'bg-blue-600/20 border-blue-500' : 'bg-black/50 border-white/10'}`}
+                      >
+                        <span className="block text-xs font-bold text-white uppercase tracking-wider">{mode}</span>
+                        <span className="block text-[9px] text-gray-400 leading-tight mt-1">
+                          {mode === 'fast' ? 'Photo-only ID, blueprint on demand' : 'Blueprint first, dual-stream audit'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
             </div>
             <button onClick={() => setShowSettings(false)} className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl text-sm uppercase tracking-widest">Confirm Protocol</button>
           </div>
@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import { WatchInfo, VintageAd } from '../types';
+import { generateVintageAd } from '../services/aiProvider';
+import { TemporalError } from '../services/errors';
+import { createAdComposite, shareImage } from '../services/imageService';
+import { runWithConcurrency } from '../services/taskQueue';
+
+interface AdGalleryProps {
+  originalImage: string;
+  watch: WatchInfo;
+  disabled: boolean;
+}
+
+// --- AD CAMPAIGN PRESETS ---
+const MAX_ADS = 3;
+const AD_CONCURRENCY = 2;
+
+const AdGallery: React.FC<AdGalleryProps> = ({ originalImage, watch, disabled }) => {
+  const [ads, setAds] = useState<VintageAd[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [activeAd, setActiveAd] = useState<VintageAd | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const briefs = watch.marketingScenarios.slice(0, MAX_ADS);
+  if (briefs.length === 0) return null;
+
+  const handleCommission = async () => {
+    if (pendingCount > 0) return;
+    setError(null);
+    setAds([]);
+    setPendingCount(briefs.length);
+
+    const base64 = originalImage.split(',')[1];
+    const results = await runWithConcurrency(briefs.map(brief => async () => {
+      try {
+        const ad = await generateVintageAd(base64, watch, brief);
+        setAds(prev => [...prev, ad]);
+        return ad;
+      } finally {
+        setPendingCount(prev => prev - 1);
+      }
+    }), AD_CONCURRENCY);
+
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) {
+      console.error('Ad generation failed:', failure.reason);
+      const reason = failure.reason;
+      setError(reason instanceof TemporalError && reason.kind !== 'UNKNOWN' ? reason.userMessage : "Some advertisements were lost at the printing press.");
+    }
+  };
+
+  const handleShare = async (ad: VintageAd) => {
+    if (!ad.imageUrl || isSharing) return;
+    setIsSharing(true);
+    try {
+      const page = await createAdComposite(ad.imageUrl, ad.headline, ad.description, ad.year);
+      await shareImage(
+        page,
+        `chrono-ad-${ad.year}-${ad.id}.jpg`,
+        `"${ad.headline}" - a ${ad.year} advertisement for the ${watch.modelName}, recovered via ChronoPortal. #chronoportalpowerbyGemini`
+      );
+    } catch (err) {
+      console.error('Ad export failed:', err);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const isPrinting = pendingCount > 0;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] flex items-center justify-between">
+        <span><i className="fas fa-newspaper mr-2 text-rose-400"></i> Period Advertisements</span>
+        {ads.length > 0 && <span className="mono text-gray-600">{ads.length} Printed</span>}
+      </h3>
+
+      {(ads.length > 0 || isPrinting) && (
+        <div className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2 -mx-6 px-6">
+          {ads.map(ad => (
+            <button
+              key={ad.id}
+              onClick={() => setActiveAd(ad)}
+              className="snap-start shrink-0 w-40 text-left rounded-xl overflow-hidden bg-[#f3ead8] active:scale-[0.98] transition-transform"
+            >
+              {ad.imageUrl && <img src={ad.imageUrl} className="w-full aspect-[3/4] object-cover" />}
+              <div className="p-2 space-y-1">
+                <p className="text-[11px] font-bold text-stone-900 leading-tight font-serif line-clamp-2">{ad.headline}</p>
+                <p className="text-[8px] mono text-stone-500 uppercase font-bold">{ad.year}</p>
+              </div>
+            </button>
+          ))}
+          {Array.from({ length: pendingCount }).map((_, idx) => (
+            <div key={`pending-${idx}`} className="snap-start shrink-0 w-40 aspect-[3/4] rounded-xl glass border border-white/10 flex flex-col items-center justify-center gap-2">
+              <div className="w-6 h-6 border-2 border-rose-400 border-t-transparent rounded-full animate-spin"></div>
+              <span className="text-[8px] mono text-gray-500 uppercase tracking-widest">Typesetting</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-[10px] mono text-red-400 uppercase">{error}</p>}
+
+      <button
+        onClick={handleCommission}
+        disabled={disabled || isPrinting}
+        className="w-full py-3 glass border border-rose-500/30 text-rose-300 text-xs font-bold uppercase tracking-widest rounded-xl hover:border-rose-400 transition-all active:scale-[0.98] flex items-center justify-center gap-2 disabled:opacity-40"
+      >
+        <i className={`fas ${isPrinting ? 'fa-spinner animate-spin' : 'fa-print'}`}></i>
+        {isPrinting ? 'At the Printing Press...' : ads.length > 0 ? 'Reprint Campaign' : `Commission ${watch.releaseYear} Ads`}
+      </button>
+
+      {activeAd && (
+        <div className="fixed inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+          <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+            <div>
+              <h2 className="text-lg font-bold text-white uppercase tracking-widest">Print Archive</h2>
+              <p className="text-[10px] mono text-gray-500 uppercase">{watch.modelName} // {activeAd.year}</p>
+            </div>
+            <button onClick={() => setActiveAd(null)} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            <div className="bg-[#f3ead8] rounded-sm p-5 space-y-4 shadow-2xl">
+              {activeAd.imageUrl && <img src={activeAd.imageUrl} className="w-full aspect-[3/4] object-cover" />}
+              <h3 className="text-2xl font-bold text-stone-900 text-center leading-tight font-serif">{activeAd.headline}</h3>
+              <p className="text-sm text-stone-700 text-center italic leading-relaxed font-serif">{activeAd.description}</p>
+            </div>
+          </div>
+
+          <div className="p-6 border-t border-white/10 flex gap-3">
+            {ads.length > 1 && (
+              <button
+                onClick={() => setActiveAd(ads[(ads.indexOf(activeAd) + 1) % ads.length])}
+                className="w-14 h-14 rounded-2xl glass text-white flex items-center justify-center active:scale-95 transition-transform"
+                title="Next Advertisement"
+              >
+                <i className="fas fa-forward"></i>
+              </button>
+            )}
+            <button
+              onClick={() => handleShare(activeAd)}
+              disabled={isSharing || !activeAd.imageUrl}
+              className="flex-1 py-4 bg-white text-black font-bold rounded-2xl active:scale-[0.98] transition-all flex items-center justify-center gap-2 disabled:opacity-40"
+            >
+              <i className={`fas ${isSharing ? 'fa-spinner animate-spin' : 'fa-share-nodes'}`}></i> Share Advertisement
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdGallery;
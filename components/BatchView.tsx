@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, BatchStatus, WatchInfo } from '../types';
+import { buildCatalogCsv } from '../services/batchService';
+import { shareBlob } from '../services/imageService';
+import { isImageFile } from '../services/uploadService';
+
+interface BatchViewProps {
+  items: BatchItem[];
+  onAddFiles: (files: File[]) => void;
+  onRetry: (item: BatchItem) => void;
+  onOpen: (item: BatchItem) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-500' },
+  reading: { label: 'Reading', className: 'text-blue-400 animate-pulse' },
+  identifying: { label: 'Identifying', className: 'text-purple-400 animate-pulse' },
+  done: { label: 'Catalogued', className: 'text-green-400' },
+  error: { label: 'Failed', className: 'text-red-400' },
+};
+
+// One verdict per row: any discrepancy flags the piece, all-confirmed clears it.
+const getForensicVerdict = (watch: WatchInfo) => {
+  const points = watch.forensicVerification;
+  if (points.length === 0) return { label: 'No Audit', className: 'text-gray-500 border-white/10' };
+  const discrepancies = points.filter(p => p.status === 'Discrepancy').length;
+  if (discrepancies > 0) return { label: `${discrepancies} Discrepancy`, className: 'text-amber-400 bg-amber-400/10 border-amber-400/30' };
+  if (points.every(p => p.status === 'Confirmed')) return { label: 'Confirmed', className: 'text-green-400 bg-green-400/10 border-green-400/30' };
+  return { label: 'Variation', className: 'text-blue-400 bg-blue-400/10 border-blue-400/30' };
+};
+
+const BatchView: React.FC<BatchViewProps> = ({ items, onAddFiles, onRetry, onOpen, onClear, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const isRunning = finished < items.length;
+  const catalogued = items.filter(item => item.status === 'done');
+
+  const addFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter(isImageFile);
+    if (files.length) onAddFiles(files);
+  };
+
+  const handleExport = async () => {
+    const csv = buildCatalogCsv(items);
+    try {
+      await shareBlob(new Blob([csv], { type: 'text/csv' }), `chrono-catalog-${new Date().toISOString().slice(0, 10)}.csv`, 'ChronoPortal collection catalog');
+    } catch (err) {
+      console.error("Catalog export failed", err);
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300"
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+      onDrop={(e) => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+    >
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Batch Catalog</h2>
+          <p className="text-[10px] text-blue-400 mono font-bold uppercase">
+            {items.length === 0 ? 'Awaiting Artifacts' : `${finished}/${items.length} Processed`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {catalogued.length > 0 && (
+            <button onClick={handleExport} className="text-[10px] mono font-bold uppercase px-3 py-2 rounded border text-blue-400 border-blue-500/30 bg-blue-500/10">
+              <i className="fas fa-file-csv mr-1"></i> Export
+            </button>
+          )}
+          {items.length > 0 && !isRunning && (
+            <button onClick={onClear} className="text-[10px] mono font-bold uppercase px-3 py-2 rounded border text-red-400 border-red-500/30 bg-red-500/10">
+              <i className="fas fa-broom mr-1"></i> Clear
+            </button>
+          )}
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1 bg-white/5">
+          <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${(finished / items.length) * 100}%` }}></div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={`w-full py-8 rounded-2xl border-2 border-dashed flex flex-col items-center gap-2 transition-colors ${isDragging ? 'border-blue-400 bg-blue-500/10' : 'border-white/10 hover:border-white/20'}`}
+        >
+          <i className="fas fa-images text-2xl text-white/40"></i>
+          <span className="text-[10px] mono text-gray-400 uppercase tracking-widest font-bold">Drop Photos or Tap to Add</span>
+        </button>
+
+        {items.length > 0 && (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[8px] mono text-gray-500 uppercase tracking-widest">
+                <th className="pb-2 font-bold"></th>
+                <th className="pb-2 font-bold">Model</th>
+                <th className="pb-2 font-bold">Year</th>
+                <th className="pb-2 font-bold">Forensics</th>
+                <th className="pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => {
+                const status = STATUS_LABELS[item.status];
+                const verdict = item.watch ? getForensicVerdict(item.watch) : null;
+                return (
+                  <tr key={item.id} className="border-t border-white/5 align-middle">
+                    <td className="py-2 pr-3 w-12">
+                      {item.thumbnail
+                        ? <img src={item.thumbnail} className="w-10 h-10 rounded-lg object-cover" />
+                        : <div className="w-10 h-10 rounded-lg bg-white/5"></div>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <p className="text-xs font-bold text-white leading-tight line-clamp-2">
+                        {item.watch?.modelName || item.partialModelName || item.file.name}
+                      </p>
+                      <p className={`text-[8px] mono uppercase font-bold ${status.className}`}>
+                        {item.status === 'error' ? item.error : status.label}
+                        {item.fromCache && ' // Cached'}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-2 text-[10px] mono text-blue-400 font-bold">{item.watch?.releaseYear || '—'}</td>
+                    <td className="py-2 pr-2">
+                      {verdict && (
+                        <span className={`text-[8px] mono px-1.5 py-0.5 rounded border uppercase font-bold whitespace-nowrap ${verdict.className}`}>{verdict.label}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {item.status === 'done' && (
+                        <button onClick={() => onOpen(item)} className="w-8 h-8 glass rounded-full text-white active:scale-90 transition-transform" title="Open in Portal">
+                          <i className="fas fa-door-open text-xs"></i>
+                        </button>
+                      )}
+                      {item.status === 'error' && (
+                        <button onClick={() => onRetry(item)} className="w-8 h-8 glass rounded-full text-white active:scale-90 transition-transform" title="Retry">
+                          <i className="fas fa-rotate-right text-xs"></i>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchView;
@@ -1,22 +1,79 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { ShotKind, SupplementaryShot } from '../types';
+import { isImageFile, readImageFile } from '../services/uploadService';
+import { ANALYSIS_WIDTH, analyzeFrame, judgeFrame, FrameQuality, QualityVerdict } from '../services/frameQuality';
+import { DialDetection, smoothDetection } from '../services/dialDetector';
+import {
+  CameraLens,
+  RangeCapability,
+  listCameraLenses,
+  openCameraStream,
+  getTrackCapabilities,
+  loadPreferredCamera,
+  savePreferredCamera,
+  SHOT_SEQUENCE
+} from '../services/cameraService';
 
 interface CameraProps {
-  onCapture: (base64: string) => void;
+  // `dialCrop` is a tight crop of the detected dial, sent alongside the context frame.
+  // `shots` carries the caseback, side and movement views from a multi-shot sequence.
+  onCapture: (base64: string, dialCrop?: string, shots?: SupplementaryShot[]) => void;
+  onBatchFiles: (files: File[]) => void;
   isProcessing: boolean;
+  // Set when live sensors are unavailable (e.g. no HTTPS); uploads still work.
+  sensorError?: string | null;
 }
 
-const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
+// --- QUALITY GATE ---
+const QUALITY_SAMPLE_MS = 250;
+// Consecutive passing samples before the shutter unlocks, so one lucky frame doesn't count.
+const STABLE_SAMPLES = 3;
+const AUTO_FIRE_KEY = 'chronoportal.autoFire';
+
+// --- DIAL TRACKING ---
+// Misses tolerated before the tracking reticle lets go.
+const MAX_DETECTION_MISSES = 3;
+const DIAL_MARGIN = 0.15;
+const DIAL_CROP_MAX_EDGE = 1024;
+// The dial crop carries the fine detail, so the context frame can be smaller.
+const CONTEXT_MAX_EDGE = 1280;
+
+const Camera: React.FC<CameraProps> = ({ onCapture, onBatchFiles, isProcessing, sensorError }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [isActive, setIsActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isFocused, setIsFocused] = useState(false);
+  const [quality, setQuality] = useState<FrameQuality | null>(null);
+  const [verdict, setVerdict] = useState<QualityVerdict | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const passStreakRef = useRef(0);
+  const [autoFire, setAutoFire] = useState(() => localStorage.getItem(AUTO_FIRE_KEY) === 'true');
+  const [detection, setDetection] = useState<DialDetection | null>(null);
+  const detectionRef = useRef<DialDetection | null>(null);
+
+  // Multi-Shot Sequence State
+  const [isSequence, setIsSequence] = useState(false);
+  const [shots, setShots] = useState<Partial<Record<ShotKind, string>>>({});
+  const sequenceDialCropRef = useRef<string | undefined>(undefined);
+  const nextShot = isSequence ? SHOT_SEQUENCE.find(shot => !shots[shot.id]) : undefined;
+  const hasRequiredShots = SHOT_SEQUENCE.every(shot => shot.optional || shots[shot.id]);
   
   // Zoom State
   const [zoomLevel, setZoomLevel] = useState(1);
-  const [zoomCapabilities, setZoomCapabilities] = useState<{ min: number; max: number; step: number } | null>(null);
+  const [zoomCapabilities, setZoomCapabilities] = useState<RangeCapability | null>(null);
+
+  // Lens, Torch & Focus State
+  const [lenses, setLenses] = useState<CameraLens[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(loadPreferredCamera);
+  const [isTorchSupported, setIsTorchSupported] = useState(false);
+  const [isTorchOn, setIsTorchOn] = useState(false);
+  const [focusCapabilities, setFocusCapabilities] = useState<RangeCapability | null>(null);
+  // null means continuous autofocus.
+  const [focusDistance, setFocusDistance] = useState<number | null>(null);
 
   useEffect(() => {
     return () => {
@@ -30,18 +87,26 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
     if (isActive && stream && videoRef.current) {
       videoRef.current.srcObject = stream;
       
-      // Extract Zoom Capabilities
+      // Every lens reports its own controls, so rebuild them from scratch on each new stream.
       const videoTrack = stream.getVideoTracks()[0];
-      if (videoTrack && videoTrack.getCapabilities) {
-        const capabilities = videoTrack.getCapabilities() as any;
-        if (capabilities.zoom) {
-          setZoomCapabilities({
-            min: capabilities.zoom.min || 1,
-            max: capabilities.zoom.max || 10,
-            step: capabilities.zoom.step || 0.1
-          });
-          setZoomLevel(capabilities.zoom.min || 1);
-        }
+      const capabilities = getTrackCapabilities(videoTrack);
+      setZoomCapabilities(capabilities.zoom ? {
+        min: capabilities.zoom.min || 1,
+        max: capabilities.zoom.max || 10,
+        step: capabilities.zoom.step || 0.1
+      } : null);
+      setZoomLevel(capabilities.zoom?.min || 1);
+      setIsTorchSupported(Boolean(capabilities.torch));
+      setIsTorchOn(false);
+      setFocusCapabilities(capabilities.focusDistance && capabilities.focusMode?.includes('manual') ? capabilities.focusDistance : null);
+      setFocusDistance(null);
+
+      if (videoTrack) {
+        videoTrack.onended = () => {
+          setIsActive(false);
+          setStream(null);
+          setError("Camera disconnected. Reactivate the sensor to continue.");
+        };
       }
     }
   }, [isActive, stream]);
@@ -58,33 +123,147 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
     }
   }, [zoomLevel, stream, zoomCapabilities]);
 
-  // Simulate focus detection for HUD feedback
+  // Apply Focus Constraints
   useEffect(() => {
-    const interval = setInterval(() => {
-      setIsFocused(prev => !prev);
-    }, 2000);
-    return () => clearInterval(interval);
-  }, []);
+    const videoTrack = stream?.getVideoTracks()[0];
+    if (!videoTrack || !focusCapabilities) return;
+    const constraint = focusDistance === null
+      ? { focusMode: 'continuous' }
+      : { focusMode: 'manual', focusDistance };
+    videoTrack.applyConstraints({ advanced: [constraint as any] })
+      .catch(err => console.error("Focus constraint failed:", err));
+  }, [focusDistance, stream, focusCapabilities]);
+
+  const toggleTorch = () => {
+    const videoTrack = stream?.getVideoTracks()[0];
+    if (!videoTrack || !isTorchSupported) return;
+    const next = !isTorchOn;
+    videoTrack.applyConstraints({ advanced: [{ torch: next } as any] })
+      .then(() => setIsTorchOn(next))
+      .catch(err => console.error("Torch constraint failed:", err));
+  };
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_FIRE_KEY, String(autoFire));
+  }, [autoFire]);
+
+  // Sample the viewfinder on a small canvas and grade it for the quality gate.
+  useEffect(() => {
+    if (!isActive || !stream) return;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return;
+
+    // The same samples feed the on-device dial detector, one frame in flight at a time.
+    let detector: Worker | null = null;
+    let detectorBusy = false;
+    let misses = 0;
+    try {
+      detector = new Worker(new URL('../services/dialDetector.worker.ts', import.meta.url), { type: 'module' });
+      detector.onmessage = (e: MessageEvent<DialDetection | null>) => {
+        detectorBusy = false;
+        if (e.data) {
+          misses = 0;
+          detectionRef.current = smoothDetection(detectionRef.current, e.data);
+        } else if (++misses >= MAX_DETECTION_MISSES) {
+          detectionRef.current = null;
+        }
+        setDetection(detectionRef.current);
+      };
+    } catch (err) {
+      console.warn("Dial detector unavailable, capturing full frames only", err);
+    }
+
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      canvas.width = ANALYSIS_WIDTH;
+      canvas.height = Math.round(video.videoHeight * (ANALYSIS_WIDTH / video.videoWidth));
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+      const measured = analyzeFrame(frame.data, canvas.width, canvas.height);
+      const next = judgeFrame(measured);
+      passStreakRef.current = next.passes ? passStreakRef.current + 1 : 0;
+      setQuality(measured);
+      setVerdict(next);
+      setIsLocked(passStreakRef.current >= STABLE_SAMPLES);
+
+      if (detector && !detectorBusy) {
+        detectorBusy = true;
+        detector.postMessage({ pixels: frame.data, width: canvas.width, height: canvas.height }, [frame.data.buffer]);
+      }
+    }, QUALITY_SAMPLE_MS);
 
-  const startCamera = async () => {
+    return () => {
+      clearInterval(interval);
+      detector?.terminate();
+      detectionRef.current = null;
+      setDetection(null);
+      passStreakRef.current = 0;
+      setIsLocked(false);
+    };
+  }, [isActive, stream]);
+
+  const startCamera = async (deviceId: string | null = activeDeviceId) => {
     setError(null);
+    // Release the current lens first; many phones can't hold two cameras open at once.
+    stream?.getTracks().forEach(track => track.stop());
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: 'environment',
-          width: { ideal: 1920 },
-          height: { ideal: 1080 }
-        },
-        audio: false
-      });
+      let mediaStream: MediaStream;
+      try {
+        mediaStream = await openCameraStream(deviceId);
+      } catch (err) {
+        // A remembered lens can disappear (unplugged, IDs reset); fall back to the default rear camera.
+        if (!deviceId) throw err;
+        console.warn("Preferred camera unavailable, using default", err);
+        mediaStream = await openCameraStream(null);
+      }
+      setActiveDeviceId(mediaStream.getVideoTracks()[0]?.getSettings().deviceId || null);
       setStream(mediaStream);
       setIsActive(true);
+      setLenses(await listCameraLenses().catch(() => []));
     } catch (err) {
       console.error("Camera access denied:", err);
       setError("Camera access required to function. Please check permissions.");
     }
   };
 
+  const submitSequence = useCallback((taken: Partial<Record<ShotKind, string>>) => {
+    if (!taken.dial) return;
+    const extras = SHOT_SEQUENCE
+      .filter(shot => shot.id !== 'dial' && taken[shot.id])
+      .map(shot => ({ kind: shot.id, base64: taken[shot.id]! }));
+    onCapture(taken.dial, sequenceDialCropRef.current, extras);
+    setShots({});
+    sequenceDialCropRef.current = undefined;
+  }, [onCapture]);
+
+  // In sequence mode each capture fills the next empty slot; the last slot submits the set.
+  const deliverCapture = useCallback((base64: string, dialCrop?: string) => {
+    if (!isSequence) {
+      onCapture(base64, dialCrop);
+      return;
+    }
+    const slot = SHOT_SEQUENCE.find(shot => !shots[shot.id]);
+    if (!slot) return;
+    if (slot.id === 'dial') sequenceDialCropRef.current = dialCrop;
+    const taken = { ...shots, [slot.id]: base64 };
+    setShots(taken);
+    if (SHOT_SEQUENCE.every(shot => taken[shot.id])) submitSequence(taken);
+  }, [isSequence, shots, onCapture, submitSequence]);
+
+  const retakeShot = (id: ShotKind) => {
+    const { [id]: _discarded, ...rest } = shots;
+    if (id === 'dial') sequenceDialCropRef.current = undefined;
+    setShots(rest);
+  };
+
+  const toggleSequence = () => {
+    setIsSequence(!isSequence);
+    setShots({});
+    sequenceDialCropRef.current = undefined;
+  };
+
   const captureFrame = useCallback(() => {
     if (!videoRef.current || !canvasRef.current || isProcessing) return;
 
@@ -93,18 +272,120 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
     const context = canvas.getContext('2d');
 
     if (context) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+      const vw = video.videoWidth;
+      const vh = video.videoHeight;
+      let dialCrop: string | undefined;
+      const dial = detectionRef.current;
+      if (dial) {
+        // Pad the box so the bezel and lugs make it into the crop.
+        const sx = Math.max(0, (dial.x - dial.width * DIAL_MARGIN) * vw);
+        const sy = Math.max(0, (dial.y - dial.height * DIAL_MARGIN) * vh);
+        const sw = Math.min(vw - sx, dial.width * (1 + 2 * DIAL_MARGIN) * vw);
+        const sh = Math.min(vh - sy, dial.height * (1 + 2 * DIAL_MARGIN) * vh);
+        const scale = Math.min(1, DIAL_CROP_MAX_EDGE / Math.max(sw, sh));
+        canvas.width = Math.round(sw * scale);
+        canvas.height = Math.round(sh * scale);
+        context.drawImage(video, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+        dialCrop = canvas.toDataURL('image/jpeg', 0.92).split(',')[1]; // High quality for dial text
+      }
+
+      const scale = Math.min(1, CONTEXT_MAX_EDGE / Math.max(vw, vh));
+      canvas.width = Math.round(vw * scale);
+      canvas.height = Math.round(vh * scale);
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.9); // High quality for dial identification
-      const base64 = dataUrl.split(',')[1];
-      onCapture(base64);
+      const jpegQuality = dialCrop ? 0.8 : 0.9;
+      const base64 = canvas.toDataURL('image/jpeg', jpegQuality).split(',')[1];
+      // Require a fresh run of good frames before the next shot.
+      passStreakRef.current = 0;
+      setIsLocked(false);
+      deliverCapture(base64, dialCrop);
+    }
+  }, [isProcessing, deliverCapture]);
+
+  // Maps a normalized frame box onto the object-cover video element.
+  const toViewport = (box: DialDetection) => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return null;
+    const scale = Math.max(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+    const offsetX = (video.clientWidth - video.videoWidth * scale) / 2;
+    const offsetY = (video.clientHeight - video.videoHeight * scale) / 2;
+    return {
+      left: box.x * video.videoWidth * scale + offsetX,
+      top: box.y * video.videoHeight * scale + offsetY,
+      width: box.width * video.videoWidth * scale,
+      height: box.height * video.videoHeight * scale,
+    };
+  };
+  const trackingBox = detection ? toViewport(detection) : null;
+
+  // The lock detector only knows dials, so a sequence would fill the caseback and side slots with more dial shots.
+  const isAutoFireActive = autoFire && !isSequence;
+
+  useEffect(() => {
+    if (isAutoFireActive && isLocked && !isProcessing) captureFrame();
+  }, [isAutoFireActive, isLocked, isProcessing, captureFrame]);
+
+  // Until the first sample is graded (or if grading is unavailable) the shutter stays usable.
+  const isShutterGated = verdict !== null && !isLocked;
+
+  // One photo goes straight through the capture pipeline; several open the batch catalog.
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter(isImageFile);
+    if (files.length === 0 || isProcessing) return;
+    if (files.length > 1) {
+      onBatchFiles(files);
+      return;
     }
-  }, [isProcessing, onCapture]);
+    setError(null);
+    try {
+      deliverCapture(await readImageFile(files[0]));
+    } catch (err) {
+      console.error("Upload failed:", err);
+      setError("Unable to read that photo. Try a JPEG or PNG.");
+    }
+  };
+
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (!isProcessing) setIsDragging(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (e.currentTarget === e.target) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      handleFiles(e.dataTransfer.files);
+    },
+  };
+
+  const uploadControls = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+      {isDragging && (
+        <div className="absolute inset-4 z-40 rounded-[2rem] border-2 border-dashed border-blue-400 bg-blue-500/10 backdrop-blur-sm flex flex-col items-center justify-center gap-3 pointer-events-none">
+          <i className="fas fa-file-arrow-up text-3xl text-blue-400"></i>
+          <p className="text-[10px] mono text-blue-300 font-bold uppercase tracking-[0.2em]">Release to Upload Artifact</p>
+        </div>
+      )}
+    </>
+  );
 
   if (!isActive) {
     return (
-      <div className="relative w-full h-full bg-black flex flex-col items-center justify-center p-8 text-center">
+      <div className="relative w-full h-full bg-black flex flex-col items-center justify-center p-8 text-center" {...dropHandlers}>
+        {uploadControls}
         <div className="mb-8 relative group">
           <div className="absolute inset-0 bg-blue-500/20 rounded-full blur-xl group-hover:bg-blue-500/30 transition-all"></div>
           <div className="relative w-24 h-24 bg-zinc-900 border border-white/10 rounded-full flex items-center justify-center shadow-2xl">
@@ -117,28 +398,40 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
           Activate temporal sensors to identify artifacts and open a window to the past.
         </p>
 
-        {error && (
+        {(error || sensorError) && (
           <div className="mb-6 px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs font-mono">
-            {error}
+            {error || sensorError}
           </div>
         )}
 
-        <button 
-          onClick={startCamera}
-          className="group relative px-8 py-4 bg-white text-black font-bold rounded-full transition-all active:scale-95 hover:bg-gray-100"
+        {!sensorError && (
+          <button 
+            onClick={() => startCamera()}
+            className="group relative px-8 py-4 bg-white text-black font-bold rounded-full transition-all active:scale-95 hover:bg-gray-100"
+          >
+            <span className="flex items-center gap-3">
+              <i className="fas fa-power-off text-sm"></i>
+              <span>Activate Sensor</span>
+            </span>
+            <div className="absolute inset-0 rounded-full border border-white/50 animate-ping opacity-20"></div>
+          </button>
+        )}
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="mt-4 px-6 py-3 glass text-white text-xs font-bold rounded-full transition-all active:scale-95 flex items-center gap-2"
         >
-          <span className="flex items-center gap-3">
-            <i className="fas fa-power-off text-sm"></i>
-            <span>Activate Sensor</span>
-          </span>
-          <div className="absolute inset-0 rounded-full border border-white/50 animate-ping opacity-20"></div>
+          <i className="fas fa-upload"></i>
+          <span>Upload Photos</span>
         </button>
+        <p className="mt-3 text-[9px] mono text-gray-600 uppercase tracking-widest">Or drop images anywhere</p>
       </div>
     );
   }
 
   return (
-    <div className="relative w-full h-full bg-black flex items-center justify-center overflow-hidden">
+    <div className="relative w-full h-full bg-black flex items-center justify-center overflow-hidden" {...dropHandlers}>
+      {uploadControls}
       <video
         ref={videoRef}
         autoPlay
@@ -146,17 +439,29 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
         className="w-full h-full object-cover"
       />
       
+      {/* Dial Tracking Reticle */}
+      {trackingBox && (
+        <div
+          className="absolute z-10 pointer-events-none rounded-full border-2 border-emerald-400/80 shadow-[0_0_24px_rgba(52,211,153,0.35)] transition-all duration-200 ease-out"
+          style={trackingBox}
+        >
+          <span className="absolute -top-6 left-1/2 -translate-x-1/2 glass px-2 py-0.5 rounded text-[8px] mono text-emerald-400 font-bold uppercase whitespace-nowrap">
+            Dial Lock {Math.round((detection?.confidence || 0) * 100)}%
+          </span>
+        </div>
+      )}
+
       {/* Precision Reticle Overlay */}
       <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-center">
         <div className="relative">
-          <div className={`w-64 h-64 border-2 rounded-[2rem] transition-colors duration-500 relative ${isFocused ? 'border-blue-500 shadow-[0_0_40px_rgba(59,130,246,0.3)]' : 'border-white/20'}`}>
-            <div className={`absolute -top-1 -left-1 w-10 h-10 border-t-4 border-l-4 rounded-tl-[2rem] transition-colors ${isFocused ? 'border-blue-400' : 'border-white/40'}`}></div>
-            <div className={`absolute -top-1 -right-1 w-10 h-10 border-t-4 border-r-4 rounded-tr-[2rem] transition-colors ${isFocused ? 'border-blue-400' : 'border-white/40'}`}></div>
-            <div className={`absolute -bottom-1 -left-1 w-10 h-10 border-b-4 border-l-4 rounded-bl-[2rem] transition-colors ${isFocused ? 'border-blue-400' : 'border-white/40'}`}></div>
-            <div className={`absolute -bottom-1 -right-1 w-10 h-10 border-b-4 border-r-4 rounded-br-[2rem] transition-colors ${isFocused ? 'border-blue-400' : 'border-white/40'}`}></div>
+          <div className={`w-64 h-64 border-2 rounded-[2rem] transition-colors duration-500 relative ${isLocked ? 'border-blue-500 shadow-[0_0_40px_rgba(59,130,246,0.3)]' : 'border-white/20'}`}>
+            <div className={`absolute -top-1 -left-1 w-10 h-10 border-t-4 border-l-4 rounded-tl-[2rem] transition-colors ${isLocked ? 'border-blue-400' : 'border-white/40'}`}></div>
+            <div className={`absolute -top-1 -right-1 w-10 h-10 border-t-4 border-r-4 rounded-tr-[2rem] transition-colors ${isLocked ? 'border-blue-400' : 'border-white/40'}`}></div>
+            <div className={`absolute -bottom-1 -left-1 w-10 h-10 border-b-4 border-l-4 rounded-bl-[2rem] transition-colors ${isLocked ? 'border-blue-400' : 'border-white/40'}`}></div>
+            <div className={`absolute -bottom-1 -right-1 w-10 h-10 border-b-4 border-r-4 rounded-br-[2rem] transition-colors ${isLocked ? 'border-blue-400' : 'border-white/40'}`}></div>
             
             <div className="absolute inset-0 flex items-center justify-center">
-               <div className={`w-40 h-40 border-2 border-dashed rounded-full transition-all duration-700 ${isFocused ? 'border-blue-500/50 scale-100' : 'border-white/10 scale-90'}`}></div>
+               <div className={`w-40 h-40 border-2 border-dashed rounded-full transition-all duration-700 ${isLocked ? 'border-blue-500/50 scale-100' : 'border-white/10 scale-90'}`}></div>
             </div>
 
             <div className="absolute inset-0 flex items-center justify-center opacity-20">
@@ -169,32 +474,134 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
             )}
           </div>
 
-          {isFocused && (
+          {quality && (
             <div className="absolute -right-32 top-0 space-y-2">
                <div className="glass px-2 py-1 rounded-md border-l-2 border-blue-500">
                   <p className="text-[8px] mono text-blue-400 font-bold uppercase">Mag: {zoomLevel.toFixed(1)}x</p>
                </div>
-               <div className="glass px-2 py-1 rounded-md border-l-2 border-blue-500">
-                  <p className="text-[8px] mono text-blue-400 font-bold uppercase">Macro: Active</p>
+               <div className={`glass px-2 py-1 rounded-md border-l-2 ${verdict?.issues.includes('blur') ? 'border-amber-500' : 'border-blue-500'}`}>
+                  <p className="text-[8px] mono text-blue-400 font-bold uppercase">Sharp: {Math.round(quality.sharpness)}</p>
+               </div>
+               <div className={`glass px-2 py-1 rounded-md border-l-2 ${verdict?.issues.some(i => i === 'dark' || i === 'bright') ? 'border-amber-500' : 'border-blue-500'}`}>
+                  <p className="text-[8px] mono text-blue-400 font-bold uppercase">Exp: {Math.round(quality.meanLuma)}</p>
+               </div>
+               <div className={`glass px-2 py-1 rounded-md border-l-2 ${verdict?.issues.includes('glare') ? 'border-amber-500' : 'border-blue-500'}`}>
+                  <p className="text-[8px] mono text-blue-400 font-bold uppercase">Glare: {(quality.glare * 100).toFixed(1)}%</p>
                </div>
             </div>
           )}
         </div>
 
         <div className="mt-8 flex flex-col items-center gap-3">
-           <div className="glass px-4 py-2 rounded-full flex items-center gap-3 border border-blue-500/20">
-              <i className={`fas ${zoomLevel > 1 ? 'fa-magnifying-glass-plus text-blue-400' : 'fa-crosshairs text-white/50'} transition-all`}></i>
+           <div className={`glass px-4 py-2 rounded-full flex items-center gap-3 border transition-colors ${isShutterGated ? 'border-amber-500/40' : 'border-blue-500/20'}`}>
+              <i className={`fas ${isShutterGated ? 'fa-triangle-exclamation text-amber-400' : isLocked ? 'fa-crosshairs text-blue-400' : 'fa-crosshairs text-white/50'} transition-all`}></i>
               <p className="text-[10px] mono text-white font-bold uppercase tracking-[0.2em]">
-                {zoomLevel > 1 ? `Magnified ${zoomLevel.toFixed(1)}x` : 'Position Secured'}
+                {verdict ? verdict.guidance : 'Calibrating Sensor'}
               </p>
            </div>
+           {nextShot && (
+             <p className="text-[9px] mono text-purple-300 font-bold uppercase tracking-widest">
+               Shot {SHOT_SEQUENCE.indexOf(nextShot) + 1}/{SHOT_SEQUENCE.length} // {nextShot.label}: {nextShot.hint}
+             </p>
+           )}
         </div>
       </div>
 
       <canvas ref={canvasRef} className="hidden" />
 
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isProcessing}
+        className="absolute bottom-14 left-8 z-10 w-12 h-12 glass rounded-full flex items-center justify-center text-white active:scale-90 transition-transform disabled:opacity-40"
+        title="Upload Photos"
+      >
+        <i className="fas fa-images"></i>
+      </button>
+
+      <button
+        onClick={() => setAutoFire(!autoFire)}
+        disabled={isSequence}
+        className={`absolute bottom-14 right-8 z-10 w-12 h-12 rounded-full flex flex-col items-center justify-center transition-all active:scale-90 disabled:opacity-40 ${isAutoFireActive ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/40' : 'glass text-white'}`}
+        title={isSequence ? 'Auto-Capture Is Off During Multi-Shot' : 'Auto-Capture When Locked'}
+      >
+        <i className="fas fa-bolt text-xs"></i>
+        <span className="text-[7px] mono font-bold uppercase">Auto</span>
+      </button>
+
+      {/* Lens, Torch & Sequence Controls */}
+      <div className="absolute top-4 left-4 right-4 z-10 flex items-center gap-2 overflow-x-auto">
+        {isTorchSupported && (
+          <button
+            onClick={toggleTorch}
+            className={`shrink-0 w-9 h-9 rounded-full flex items-center justify-center transition-all active:scale-90 ${isTorchOn ? 'bg-amber-400 text-black shadow-lg shadow-amber-400/40' : 'glass text-white'}`}
+            title="Toggle Torch"
+          >
+            <i className="fas fa-lightbulb text-xs"></i>
+          </button>
+        )}
+        {lenses.length > 1 && lenses.map(lens => (
+          <button
+            key={lens.deviceId}
+            onClick={() => {
+              if (lens.deviceId === activeDeviceId) return;
+              savePreferredCamera(lens.deviceId);
+              startCamera(lens.deviceId);
+            }}
+            disabled={isProcessing}
+            className={`shrink-0 h-9 px-3 rounded-full text-[10px] mono font-bold uppercase transition-all ${lens.deviceId === activeDeviceId ? 'bg-white text-black' : 'glass text-white'}`}
+          >
+            {lens.label}
+          </button>
+        ))}
+        <button
+          onClick={toggleSequence}
+          disabled={isProcessing}
+          className={`shrink-0 ml-auto h-9 px-3 rounded-full text-[10px] mono font-bold uppercase transition-all ${isSequence ? 'bg-purple-600 text-white shadow-lg shadow-purple-500/40' : 'glass text-white'}`}
+          title="Guided capture: dial, caseback, side and movement"
+        >
+          <i className="fas fa-layer-group mr-1"></i> Multi-Shot
+        </button>
+      </div>
+
       {/* Capture & Controls Container */}
       <div className="absolute bottom-10 left-0 right-0 flex flex-col items-center gap-8 px-6">
+
+        {/* Multi-Shot Slots */}
+        {isSequence && (
+          <div className="flex items-end gap-2">
+            {SHOT_SEQUENCE.map(shot => {
+              const image = shots[shot.id];
+              const isNext = nextShot?.id === shot.id;
+              return (
+                <button
+                  key={shot.id}
+                  onClick={() => image && retakeShot(shot.id)}
+                  disabled={!image || isProcessing}
+                  className={`relative w-14 h-14 rounded-xl overflow-hidden border-2 flex flex-col items-center justify-center gap-1 transition-all ${isNext ? 'border-purple-400 bg-purple-500/20' : image ? 'border-white/40' : 'border-white/10 glass'}`}
+                  title={image ? `Retake ${shot.label}` : shot.hint}
+                >
+                  {image ? (
+                    <img src={`data:image/jpeg;base64,${image}`} className="absolute inset-0 w-full h-full object-cover" />
+                  ) : (
+                    <i className={`fas ${shot.icon} text-xs ${isNext ? 'text-purple-300' : 'text-white/40'}`}></i>
+                  )}
+                  <span className="relative text-[7px] mono font-bold uppercase text-white bg-black/60 px-1 rounded">
+                    {shot.label}{shot.optional && !image ? '?' : ''}
+                  </span>
+                </button>
+              );
+            })}
+            {hasRequiredShots && (
+              <button
+                onClick={() => submitSequence(shots)}
+                disabled={isProcessing}
+                className="h-14 px-3 rounded-xl bg-purple-600 text-white text-[9px] mono font-bold uppercase active:scale-95 transition-transform"
+              >
+                {shots.movement ? 'Analyze' : 'Skip & Analyze'}
+              </button>
+            )}
+          </div>
+        )}
         
         {/* Zoom Tactical Slider */}
         {zoomCapabilities && (
@@ -230,18 +637,42 @@ const Camera: React.FC<CameraProps> = ({ onCapture, isProcessing }) => {
           </div>
         )}
 
+        {/* Manual Focus Slider */}
+        {focusCapabilities && (
+          <div className="w-full max-w-[280px] flex items-center gap-3">
+            <button
+              onClick={() => setFocusDistance(null)}
+              className={`shrink-0 h-7 px-2 rounded text-[8px] mono font-bold uppercase ${focusDistance === null ? 'bg-blue-600 text-white' : 'glass text-white/60'}`}
+            >
+              AF
+            </button>
+            <input
+              type="range"
+              min={focusCapabilities.min}
+              max={focusCapabilities.max}
+              step={focusCapabilities.step || 0.01}
+              value={focusDistance ?? focusCapabilities.min}
+              onChange={(e) => setFocusDistance(parseFloat(e.target.value))}
+              className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+            />
+            <span className="shrink-0 w-12 text-right text-[8px] mono text-white/60 font-bold uppercase">
+              {focusDistance === null ? 'Auto' : `${focusDistance.toFixed(2)}m`}
+            </span>
+          </div>
+        )}
+
         <button
           onClick={captureFrame}
-          disabled={isProcessing}
+          disabled={isProcessing || isShutterGated}
           className={`
             group relative w-20 h-20 rounded-full border-4 flex items-center justify-center transition-all active:scale-95
-            ${isProcessing ? 'border-blue-900 bg-blue-900/50' : 'border-white bg-white/10 hover:bg-white/20'}
+            ${isProcessing ? 'border-blue-900 bg-blue-900/50' : isShutterGated ? 'border-white/30 bg-white/5 opacity-60' : 'border-white bg-white/10 hover:bg-white/20'}
           `}
         >
           {isProcessing ? (
             <div className="flex flex-col items-center">
                <div className="w-8 h-8 border-4 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
-               <p className="absolute -bottom-10 text-[8px] mono text-blue-400 font-bold uppercase tracking-widest whitespace-nowrap">Extracting Blueprint...</p>
+               <p className="absolute -bottom-10 text-[8px] mono text-blue-400 font-bold uppercase tracking-widest whitespace-nowrap">Analyzing Artifact...</p>
             </div>
           ) : (
             <>
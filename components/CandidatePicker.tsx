@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { IdentificationCandidate, WatchInfo } from '../types';
+import { IdentificationChoice, listCandidates } from '../services/correctionService';
+
+interface CandidatePickerProps {
+  originalImage: string;
+  watch: WatchInfo;
+  priorCorrection: IdentificationChoice | null;
+  onConfirm: (candidate: IdentificationCandidate) => void;
+  onCancel: () => void;
+}
+
+const confidenceColor = (confidence: number) => {
+  if (confidence >= 0.75) return 'bg-green-500';
+  if (confidence >= 0.4) return 'bg-blue-500';
+  return 'bg-amber-500';
+};
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ originalImage, watch, priorCorrection, onConfirm, onCancel }) => {
+  const candidates = listCandidates(watch, priorCorrection);
+  // A past correction is the best guess for what the user wants this time.
+  const [selected, setSelected] = useState(() => {
+    const corrected = priorCorrection ? candidates.findIndex(c => c.modelName === priorCorrection.chosen) : -1;
+    return Math.max(0, corrected);
+  });
+  const choice = candidates[selected];
+
+  return (
+    <div className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Confirm Identity</h2>
+          <p className="text-[10px] text-blue-400 mono font-bold uppercase">
+            {candidates.length > 1 ? `${candidates.length} Candidate References` : 'Low Confidence Match'}
+          </p>
+        </div>
+        <button onClick={onCancel} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        <img src={originalImage} className="w-full max-h-48 object-cover rounded-2xl border border-white/10" />
+
+        {priorCorrection && (
+          <p className="text-[10px] mono text-purple-300 uppercase font-bold tracking-widest">
+            <i className="fas fa-clock-rotate-left mr-1"></i> You corrected this reading to {priorCorrection.chosen} before
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {candidates.map((candidate, idx) => (
+            <button
+              key={candidate.modelName}
+              onClick={() => setSelected(idx)}
+              className={`w-full text-left p-4 rounded-2xl border transition-all ${selected === idx ? 'border-blue-500 bg-blue-500/10' : 'border-white/10 glass'}`}
+            >
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-white leading-tight">{candidate.modelName}</p>
+                  <p className="text-[10px] mono text-blue-400 font-bold">{candidate.releaseYear}</p>
+                </div>
+                <span className="shrink-0 text-[10px] mono text-gray-400 font-bold">
+                  {candidate.confidence > 0 ? `${Math.round(candidate.confidence * 100)}%` : '—'}
+                </span>
+              </div>
+              <div className="mt-2 h-1 bg-white/5 rounded-full overflow-hidden">
+                <div className={`h-full ${confidenceColor(candidate.confidence)}`} style={{ width: `${Math.round(candidate.confidence * 100)}%` }}></div>
+              </div>
+              {candidate.reason && <p className="mt-2 text-[10px] text-gray-400 leading-snug">{candidate.reason}</p>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 border-t border-white/10">
+        <button
+          onClick={() => onConfirm(choice)}
+          className="w-full py-4 bg-blue-600 text-white font-bold rounded-2xl shadow-xl shadow-blue-500/10 uppercase tracking-widest text-xs flex items-center justify-center gap-2 active:scale-95 transition-transform"
+        >
+          <i className="fas fa-check"></i> <span className="truncate">Confirm {choice.modelName}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePicker;
@@ -0,0 +1,381 @@
+import React, { useEffect, useState } from 'react';
+import { CollectionEntry, HistoryItem, WatchCondition } from '../types';
+import {
+  COLLECTION_SORTS,
+  CollectionSort,
+  WATCH_CONDITIONS,
+  createServiceRecord,
+  deleteCollectionEntry,
+  estimateValue,
+  filterCollection,
+  getCollection,
+  purchaseCost,
+  saveCollectionEntry,
+  sortCollection,
+  summarizeCollection
+} from '../services/collectionService';
+import { getHistoryItem } from '../services/historyService';
+import { DISPLAY_CURRENCIES, LEGACY_CURRENCY, formatMoney } from '../services/currencyService';
+
+interface CollectionViewProps {
+  onOpenScan: (item: HistoryItem) => void;
+  onShowPortfolio: () => void;
+  onClose: () => void;
+}
+
+const parseAmount = (value: string): number | undefined => {
+  const num = parseFloat(value);
+  return Number.isFinite(num) && num >= 0 ? num : undefined;
+};
+
+interface EntryEditorProps {
+  entry: CollectionEntry;
+  onSave: (entry: CollectionEntry) => void;
+  onDelete: () => void;
+  onOpenScan: (scanId: string) => void;
+}
+
+const EntryEditor: React.FC<EntryEditorProps> = ({ entry, onSave, onDelete, onOpenScan }) => {
+  const [draft, setDraft] = useState(entry);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const isDirty = draft !== entry;
+
+  const update = (patch: Partial<CollectionEntry>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white placeholder-gray-600 focus:outline-none focus:border-blue-500/50";
+  const labelClass = "text-[8px] mono text-gray-500 uppercase font-bold tracking-widest";
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/5 space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className={labelClass}>Price Paid</span>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min="0"
+              value={draft.purchasePrice ?? ''}
+              onChange={(e) => update({ purchasePrice: parseAmount(e.target.value) })}
+              className={`${inputClass} mono`}
+            />
+            <select
+              value={draft.purchaseCurrency || LEGACY_CURRENCY}
+              onChange={(e) => update({ purchaseCurrency: e.target.value })}
+              className={`${inputClass} mono w-20`}
+            >
+              {DISPLAY_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Purchased</span>
+          <input
+            type="date"
+            value={draft.purchaseDate || ''}
+            onChange={(e) => update({ purchaseDate: e.target.value || undefined })}
+            className={`${inputClass} mono`}
+          />
+        </label>
+      </div>
+
+      <label className="block space-y-1">
+        <span className={labelClass}>Condition</span>
+        <select
+          value={draft.condition}
+          onChange={(e) => update({ condition: e.target.value as WatchCondition })}
+          className={inputClass}
+        >
+          {WATCH_CONDITIONS.map(condition => <option key={condition} value={condition}>{condition}</option>)}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className={labelClass}>Notes</span>
+        <textarea
+          value={draft.notes}
+          onChange={(e) => update({ notes: e.target.value })}
+          rows={3}
+          placeholder="Provenance, box & papers, strap..."
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+
+      {/* Service History */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className={labelClass}>Service History</span>
+          <button
+            onClick={() => update({ serviceHistory: [createServiceRecord(), ...draft.serviceHistory] })}
+            className="text-[9px] mono text-blue-400 font-bold uppercase"
+          >
+            <i className="fas fa-plus mr-1"></i> Add Service
+          </button>
+        </div>
+        {draft.serviceHistory.map(record => {
+          const patchRecord = (patch: Partial<typeof record>) => update({
+            serviceHistory: draft.serviceHistory.map(r => r.id === record.id ? { ...r, ...patch } : r)
+          });
+          return (
+            <div key={record.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+              <input type="date" value={record.date} onChange={(e) => patchRecord({ date: e.target.value })} className={`${inputClass} mono`} />
+              <input value={record.provider} onChange={(e) => patchRecord({ provider: e.target.value })} placeholder="Watchmaker" className={inputClass} />
+              <button
+                onClick={() => update({ serviceHistory: draft.serviceHistory.filter(r => r.id !== record.id) })}
+                className="w-8 h-8 glass rounded-full text-white/60 hover:text-red-400"
+                title="Remove Service"
+              >
+                <i className="fas fa-times text-xs"></i>
+              </button>
+              <input value={record.work} onChange={(e) => patchRecord({ work: e.target.value })} placeholder="Work done" className={`${inputClass} col-span-2`} />
+              <input
+                type="number"
+                min="0"
+                value={record.cost ?? ''}
+                onChange={(e) => patchRecord({ cost: parseAmount(e.target.value) })}
+                placeholder="Cost"
+                className={`${inputClass} mono w-20`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Linked Scans */}
+      {draft.scanIds.length > 0 && (
+        <div className="space-y-2">
+          <span className={labelClass}>Linked Scans</span>
+          <div className="flex flex-wrap gap-2">
+            {draft.scanIds.map((scanId, idx) => (
+              <button
+                key={scanId}
+                onClick={() => onOpenScan(scanId)}
+                className="text-[9px] mono font-bold uppercase px-2 py-1 rounded border border-white/10 text-gray-300 hover:bg-white/5"
+              >
+                <i className="fas fa-door-open mr-1"></i> Scan {draft.scanIds.length - idx}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Latest Market Analysis */}
+      {draft.market && (
+        <div className="glass p-3 rounded-xl border-l-2 border-emerald-500 space-y-1">
+          <div className="flex justify-between items-center">
+            <span className={labelClass}>Latest Market Read</span>
+            {draft.marketUpdatedAt && (
+              <span className="text-[8px] mono text-gray-500 uppercase">{new Date(draft.marketUpdatedAt).toLocaleDateString()}</span>
+            )}
+          </div>
+          <p className="text-sm font-bold text-white mono">
+            {formatMoney(draft.market.currentMinPrice, draft.market.currency)} - {formatMoney(draft.market.currentMaxPrice, draft.market.currency)}
+          </p>
+          <p className="text-[10px] text-gray-400">{draft.market.marketSentiment} // Rating {draft.market.investmentRating}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!isDirty}
+          className="flex-1 py-2.5 bg-blue-600 text-white text-[10px] mono font-bold uppercase rounded-xl disabled:opacity-40"
+        >
+          <i className="fas fa-floppy-disk mr-1"></i> Save
+        </button>
+        <button
+          onClick={() => (confirmDelete ? onDelete() : setConfirmDelete(true))}
+          onBlur={() => setConfirmDelete(false)}
+          className={`px-4 py-2.5 text-[10px] mono font-bold uppercase rounded-xl border transition-colors ${confirmDelete ? 'bg-red-500 text-white border-red-500' : 'text-red-400 border-red-500/30 bg-red-500/10'}`}
+        >
+          <i className="fas fa-trash mr-1"></i> {confirmDelete ? 'Confirm' : 'Remove'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CollectionView: React.FC<CollectionViewProps> = ({ onOpenScan, onShowPortfolio, onClose }) => {
+  const [entries, setEntries] = useState<CollectionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [condition, setCondition] = useState<WatchCondition | null>(null);
+  const [sort, setSort] = useState<CollectionSort>('recent');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCollection = async () => {
+      try {
+        setEntries(await getCollection());
+      } catch (err) {
+        console.error(err);
+        setError("Unable to access the local collection.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCollection();
+  }, []);
+
+  const visible = sortCollection(filterCollection(entries, query, condition), sort);
+  const totals = summarizeCollection(visible);
+  const money = (amount: number) => formatMoney(amount, totals.currency);
+
+  const handleSave = async (entry: CollectionEntry) => {
+    try {
+      const saved = await saveCollectionEntry(entry);
+      setEntries(prev => prev.map(e => e.modelName === saved.modelName ? saved : e));
+    } catch (err) {
+      console.error("Collection write failed", err);
+    }
+  };
+
+  const handleDelete = async (modelName: string) => {
+    try {
+      await deleteCollectionEntry(modelName);
+      setEntries(prev => prev.filter(e => e.modelName !== modelName));
+      setExpanded(null);
+    } catch (err) {
+      console.error("Collection deletion failed", err);
+    }
+  };
+
+  const handleOpenScan = async (scanId: string) => {
+    try {
+      const item = await getHistoryItem(scanId);
+      if (item) onOpenScan(item);
+    } catch (err) {
+      console.error("Archive read failed", err);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Collection</h2>
+          <p className="text-[10px] text-blue-400 mono font-bold uppercase">{entries.length} Pieces Owned</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {entries.length > 0 && (
+            <button onClick={onShowPortfolio} className="text-[10px] mono font-bold uppercase px-3 py-2 rounded border text-emerald-400 border-emerald-500/30 bg-emerald-500/10">
+              <i className="fas fa-chart-pie mr-1"></i> Portfolio
+            </button>
+          )}
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {loading ? (
+          <div className="flex flex-col items-center justify-center h-64 space-y-4">
+            <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-blue-400 mono text-xs uppercase tracking-widest animate-pulse">Opening Vault...</p>
+          </div>
+        ) : error ? (
+          <div className="p-4 border border-red-500/30 bg-red-500/10 rounded-xl text-red-400 text-center">
+            {error}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center space-y-3">
+            <i className="fas fa-vault text-3xl text-white/20"></i>
+            <p className="text-gray-500 mono text-xs uppercase tracking-widest">Add a scanned watch to start your collection</p>
+          </div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="glass p-3 rounded-xl">
+                <p className="text-[8px] mono text-gray-500 uppercase font-bold">Pieces</p>
+                <p className="text-xl font-bold text-white">{totals.count}</p>
+              </div>
+              <div className="glass p-3 rounded-xl">
+                <p className="text-[8px] mono text-gray-500 uppercase font-bold">Cost Basis</p>
+                <p className="text-sm font-bold text-white mono">{money(totals.costBasis)}</p>
+              </div>
+              <div className="glass p-3 rounded-xl">
+                <p className="text-[8px] mono text-gray-500 uppercase font-bold">Est. Value</p>
+                <p className="text-sm font-bold text-emerald-400 mono">
+                  {totals.valued ? `${money(totals.valueMin)}-${money(totals.valueMax)}` : '--'}
+                </p>
+                {totals.valued > 0 && totals.valued < totals.count && (
+                  <p className="text-[8px] mono text-gray-600 uppercase">{totals.valued}/{totals.count} priced</p>
+                )}
+              </div>
+            </div>
+
+            {/* Filter & Sort */}
+            <div className="space-y-2">
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search model or notes"
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-xs text-white placeholder-gray-600 focus:outline-none focus:border-blue-500/50"
+              />
+              <div className="flex gap-2">
+                <select
+                  value={condition || ''}
+                  onChange={(e) => setCondition((e.target.value || null) as WatchCondition | null)}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] mono uppercase text-white focus:outline-none"
+                >
+                  <option value="">All Conditions</option>
+                  {WATCH_CONDITIONS.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as CollectionSort)}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] mono uppercase text-white focus:outline-none"
+                >
+                  {COLLECTION_SORTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {/* Entries */}
+            {visible.length === 0 ? (
+              <p className="text-center text-gray-500 mono text-xs uppercase tracking-widest py-10">No pieces match</p>
+            ) : visible.map(entry => {
+              const value = estimateValue(entry, totals.currency);
+              const paid = purchaseCost(entry, totals.currency);
+              const isOpen = expanded === entry.modelName;
+              return (
+                <div key={entry.modelName} className={`glass rounded-2xl p-3 border transition-colors ${isOpen ? 'border-blue-500/40' : 'border-white/10'}`}>
+                  <button onClick={() => setExpanded(isOpen ? null : entry.modelName)} className="w-full flex items-center gap-3 text-left">
+                    {entry.thumbnail
+                      ? <img src={entry.thumbnail} className="w-14 h-14 rounded-xl object-cover shrink-0" />
+                      : <div className="w-14 h-14 rounded-xl bg-white/5 shrink-0 flex items-center justify-center"><i className="fas fa-clock text-white/20"></i></div>}
+                    <div className="flex-1 min-w-0">
+                      <h4 className="text-xs font-bold text-white leading-tight line-clamp-2">{entry.modelName}</h4>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-[10px] mono text-blue-400 font-bold">{entry.releaseYear}</span>
+                        <span className="text-[8px] mono px-1.5 py-0.5 rounded border border-white/10 text-gray-400 uppercase font-bold">{entry.condition}</span>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-[10px] mono text-gray-400">{paid !== null ? money(paid) : '--'}</p>
+                      <p className="text-[10px] mono text-emerald-400 font-bold">{value !== null ? money(value) : '--'}</p>
+                    </div>
+                  </button>
+                  {isOpen && (
+                    <EntryEditor
+                      key={entry.updatedAt}
+                      entry={entry}
+                      onSave={handleSave}
+                      onDelete={() => handleDelete(entry.modelName)}
+                      onOpenScan={handleOpenScan}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionView;
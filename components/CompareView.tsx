@@ -0,0 +1,147 @@
+
+import React, { useRef, useState } from 'react';
+import { WatchInfo } from '../types';
+import { createComparisonComposite, shareImage } from '../services/imageService';
+
+interface CompareViewProps {
+  originalImage: string;
+  blueprintImage: string | null;
+  transformedImage: string;
+  watch: WatchInfo;
+}
+
+type CompareMode = 'slider' | 'side' | 'flash';
+
+const MODES: { id: CompareMode; icon: string; label: string }[] = [
+  { id: 'slider', icon: 'fa-left-right', label: 'Wipe' },
+  { id: 'side', icon: 'fa-table-columns', label: 'Split' },
+  { id: 'flash', icon: 'fa-bolt', label: 'Flash' },
+];
+
+const CompareView: React.FC<CompareViewProps> = ({ originalImage, blueprintImage, transformedImage, watch }) => {
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [wipePosition, setWipePosition] = useState(50);
+  const [flashIndex, setFlashIndex] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const flashFrames = [
+    { src: originalImage, label: 'Now' },
+    ...(blueprintImage ? [{ src: blueprintImage, label: 'Blueprint' }] : []),
+    { src: transformedImage, label: watch.releaseYear },
+  ];
+
+  const updateWipe = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const pct = ((clientX - rect.left) / rect.width) * 100;
+    setWipePosition(Math.min(100, Math.max(0, pct)));
+  };
+
+  const handleExport = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      const composite = await createComparisonComposite(transformedImage, originalImage, watch.releaseYear);
+      await shareImage(
+        composite,
+        `chrono-then-vs-now-${watch.releaseYear}.jpg`,
+        `${watch.releaseYear} vs. today, seen through the ChronoPortal. #chronoportalpowerbyGemini`
+      );
+    } catch (err) {
+      console.error('Composite export failed:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const label = (text: string, position: string) => (
+    <div className={`absolute top-16 ${position} glass px-2 py-1 rounded text-[10px] mono text-white font-bold uppercase tracking-widest pointer-events-none`}>
+      {text}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0">
+      {mode === 'slider' && (
+        <div
+          ref={containerRef}
+          className="absolute inset-0 touch-none select-none cursor-ew-resize"
+          onPointerDown={(e) => {
+            isDraggingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            updateWipe(e.clientX);
+          }}
+          onPointerMove={(e) => isDraggingRef.current && updateWipe(e.clientX)}
+          onPointerUp={() => { isDraggingRef.current = false; }}
+          onPointerCancel={() => { isDraggingRef.current = false; }}
+        >
+          <img src={originalImage} className="absolute inset-0 w-full h-full object-cover" draggable={false} />
+          <img
+            src={transformedImage}
+            className="absolute inset-0 w-full h-full object-cover"
+            style={{ clipPath: `inset(0 ${100 - wipePosition}% 0 0)` }}
+            draggable={false}
+          />
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_12px_rgba(255,255,255,0.8)]" style={{ left: `${wipePosition}%` }}>
+            <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-10 h-10 rounded-full bg-white text-black flex items-center justify-center shadow-xl">
+              <i className="fas fa-arrows-left-right text-sm"></i>
+            </div>
+          </div>
+          {label(watch.releaseYear, 'left-4')}
+          {label('Now', 'right-4')}
+        </div>
+      )}
+
+      {mode === 'side' && (
+        <div className="absolute inset-0 grid grid-cols-2 gap-0.5 bg-white/80">
+          <div className="relative overflow-hidden">
+            <img src={transformedImage} className="w-full h-full object-cover" />
+            {label(watch.releaseYear, 'left-2')}
+          </div>
+          <div className="relative overflow-hidden">
+            <img src={originalImage} className="w-full h-full object-cover" />
+            {label('Now', 'left-2')}
+          </div>
+        </div>
+      )}
+
+      {mode === 'flash' && (
+        <button className="absolute inset-0 w-full h-full" onClick={() => setFlashIndex((flashIndex + 1) % flashFrames.length)}>
+          <img src={flashFrames[flashIndex % flashFrames.length].src} className="w-full h-full object-cover" />
+          {label(flashFrames[flashIndex % flashFrames.length].label, 'left-4')}
+          <div className="absolute bottom-16 left-0 right-0 flex justify-center gap-2 pointer-events-none">
+            {flashFrames.map((frame, idx) => (
+              <span key={frame.label} className={`w-2 h-2 rounded-full ${idx === flashIndex % flashFrames.length ? 'bg-white' : 'bg-white/30'}`}></span>
+            ))}
+          </div>
+          <p className="absolute bottom-10 left-0 right-0 text-center text-[8px] mono text-white/60 uppercase tracking-widest pointer-events-none">Tap to Flash</p>
+        </button>
+      )}
+
+      {/* Mode Switcher */}
+      <div className="absolute bottom-4 right-4 flex gap-2">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setMode(m.id)}
+            className={`h-8 px-3 rounded-full text-[10px] mono font-bold uppercase flex items-center gap-1 transition-all ${mode === m.id ? 'bg-white text-black' : 'glass text-white'}`}
+          >
+            <i className={`fas ${m.icon}`}></i> {m.label}
+          </button>
+        ))}
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-8 h-8 rounded-full glass text-white flex items-center justify-center active:scale-90 transition-transform"
+          title="Export Then vs. Now"
+        >
+          <i className={`fas ${isExporting ? 'fa-spinner animate-spin' : 'fa-file-export'}`}></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
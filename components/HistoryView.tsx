@@ -0,0 +1,126 @@
+
+import React, { useEffect, useState } from 'react';
+import { HistoryItem } from '../types';
+import { getHistory, deleteHistoryItem, clearHistory } from '../services/historyService';
+
+interface HistoryViewProps {
+  onOpen: (item: HistoryItem) => void;
+  onClose: () => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onClose }) => {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setItems(await getHistory());
+      } catch (err) {
+        console.error(err);
+        setError("Unable to access the local temporal archive.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryItem(id);
+      setItems(prev => prev.filter(item => item.id !== id));
+    } catch (err) {
+      console.error("Archive deletion failed", err);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    try {
+      await clearHistory();
+      setItems([]);
+    } catch (err) {
+      console.error("Archive purge failed", err);
+    } finally {
+      setConfirmClear(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Temporal Archive</h2>
+          <p className="text-[10px] text-blue-400 mono font-bold uppercase">{items.length} Artifacts Logged</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {items.length > 0 && (
+            <button
+              onClick={handleClear}
+              onBlur={() => setConfirmClear(false)}
+              className={`text-[10px] mono font-bold uppercase px-3 py-2 rounded border transition-colors ${
+                confirmClear ? 'bg-red-500 text-white border-red-500' : 'text-red-400 border-red-500/30 bg-red-500/10'
+              }`}
+            >
+              <i className="fas fa-trash mr-1"></i> {confirmClear ? 'Confirm Purge' : 'Purge All'}
+            </button>
+          )}
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {loading ? (
+          <div className="flex flex-col items-center justify-center h-64 space-y-4">
+            <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-blue-400 mono text-xs uppercase tracking-widest animate-pulse">Retrieving Archive...</p>
+          </div>
+        ) : error ? (
+          <div className="p-4 border border-red-500/30 bg-red-500/10 rounded-xl text-red-400 text-center">
+            {error}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center space-y-3">
+            <i className="fas fa-box-archive text-3xl text-white/20"></i>
+            <p className="text-gray-500 mono text-xs uppercase tracking-widest">No artifacts scanned yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {items.map(item => (
+              <div key={item.id} className="relative glass rounded-xl overflow-hidden border border-white/10">
+                <button onClick={() => onOpen(item)} className="block w-full text-left active:scale-[0.98] transition-transform">
+                  <img src={item.transformedImage} className="w-full aspect-[9/16] object-cover" />
+                  <div className="p-3 space-y-1">
+                    <h4 className="text-xs font-bold text-white leading-tight line-clamp-2">{item.watch.modelName}</h4>
+                    <div className="flex justify-between items-center">
+                      <span className="text-[10px] mono text-blue-400 font-bold">{item.watch.releaseYear}</span>
+                      <span className="text-[8px] mono text-gray-500 uppercase">{new Date(item.timestamp).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDelete(item.id)}
+                  className="absolute top-2 right-2 w-8 h-8 glass rounded-full flex items-center justify-center text-white/70 hover:text-red-400 active:scale-90 transition-all"
+                  title="Delete Artifact"
+                >
+                  <i className="fas fa-trash-alt text-xs"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
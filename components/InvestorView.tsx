@@ -1,26 +1,51 @@
 
 import React, { useEffect, useState } from 'react';
-import { WatchInfo, MarketAnalysis } from '../types';
-import { analyzeMarketValue } from '../services/geminiService';
+import { WatchInfo, MarketAnalysis, PriceAlert, WatchlistItem } from '../types';
+import { TemporalError } from '../services/errors';
+import { fetchMarketAnalysis } from '../services/marketCache';
+import { convertAmount, formatMoney, loadDisplayCurrency } from '../services/currencyService';
+import { applyMarketToWatchlist, findWatchlistItem, requestAlertPermission, setWatchTarget } from '../services/watchlistService';
+import PriceChart, { ChartSeries } from './PriceChart';
+
+// Comparison lines, in the order they are added.
+const COMPARISON_COLORS = ['#60a5fa', '#f59e0b', '#a78bfa'];
+const MAX_COMPARISONS = 3;
 
 interface InvestorViewProps {
   watch: WatchInfo;
   onClose: () => void;
+  onAlert: (item: WatchlistItem, alert: PriceAlert) => void;
 }
 
-const InvestorView: React.FC<InvestorViewProps> = ({ watch, onClose }) => {
+const InvestorView: React.FC<InvestorViewProps> = ({ watch, onClose, onAlert }) => {
   const [data, setData] = useState<MarketAnalysis | null>(null);
+  const [fetchedAt, setFetchedAt] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [displayCurrency] = useState(loadDisplayCurrency);
+  const [comparisons, setComparisons] = useState<{ modelName: string; market: MarketAnalysis }[]>([]);
+  const [compareQuery, setCompareQuery] = useState('');
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [watchItem, setWatchItem] = useState(() => findWatchlistItem(watch.modelName));
+  const [targetInput, setTargetInput] = useState('');
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const result = await analyzeMarketValue(watch.modelName);
-        setData(result);
+        // Served from the market cache while fresh, so reopening the view doesn't re-crawl
+        const result = await fetchMarketAnalysis(watch.modelName);
+        setData(result.market);
+        setFetchedAt(result.fetchedAt);
+        // Any read also counts as a watchlist check, dated when it was fetched
+        const applied = applyMarketToWatchlist(watch.modelName, result.market, result.fetchedAt);
+        if (applied) {
+          setWatchItem(applied.item);
+          if (applied.alert) onAlert(applied.item, applied.alert);
+        }
       } catch (err) {
         console.error(err);
-        setError("Unable to connect to Market Crawler Protocol.");
+        setError(err instanceof TemporalError && err.kind !== 'UNKNOWN' ? err.userMessage : "Unable to connect to Market Crawler Protocol.");
       } finally {
         setLoading(false);
       }
@@ -28,72 +53,87 @@ const InvestorView: React.FC<InvestorViewProps> = ({ watch, onClose }) => {
     fetchData();
   }, [watch.modelName]);
 
+  // Quotes in a currency missing from the rate table are shown as quoted.
+  const formatPrice = (amount: number) => {
+    if (!data) return '';
+    const converted = convertAmount(amount, data.currency, displayCurrency);
+    return converted !== null ? formatMoney(converted, displayCurrency) : formatMoney(amount, data.currency);
+  };
+
+  const handleSetTarget = (e: React.FormEvent) => {
+    e.preventDefault();
+    const price = parseFloat(targetInput);
+    if (!data || !Number.isFinite(price) || price <= 0) return;
+    setWatchTarget(watch.modelName, price, displayCurrency);
+    const applied = applyMarketToWatchlist(watch.modelName, data, fetchedAt);
+    if (applied?.alert) onAlert(applied.item, applied.alert);
+    setWatchItem(findWatchlistItem(watch.modelName));
+    setTargetInput('');
+    requestAlertPermission().catch(err => console.warn("Notification permission request failed", err));
+  };
+
   const handleEbayClick = () => {
     const query = encodeURIComponent(watch.modelName);
     window.open(`https://www.ebay.com/sch/i.html?_nkw=${query}`, '_blank');
   };
 
-  const renderChart = (history: { year: string; averagePrice: number }[]) => {
-    if (!history || history.length === 0) return null;
-    
-    const height = 150;
-    const width = 300;
-    const padding = 20;
-    
-    const prices = history.map(h => h.averagePrice);
-    const minPrice = Math.min(...prices) * 0.9;
-    const maxPrice = Math.max(...prices) * 1.1;
-    
-    const getX = (index: number) => padding + (index * ((width - padding * 2) / (history.length - 1)));
-    const getY = (price: number) => height - (padding + ((price - minPrice) / (maxPrice - minPrice)) * (height - padding * 2));
-
-    const points = history.map((point, i) => `${getX(i)},${getY(point.averagePrice)}`).join(' ');
-
-    return (
-      <div className="w-full flex justify-center py-4">
-        <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
-          {/* Grid lines */}
-          <line x1={padding} y1={padding} x2={width - padding} y2={padding} stroke="rgba(255,255,255,0.1)" strokeDasharray="4" />
-          <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="rgba(255,255,255,0.1)" />
-          
-          {/* The Line */}
-          <polyline 
-            fill="none" 
-            stroke={data?.marketSentiment === 'Bearish' ? '#ef4444' : '#10b981'} 
-            strokeWidth="3" 
-            points={points} 
-            className="drop-shadow-lg"
-          />
-          
-          {/* Dots and Labels */}
-          {history.map((point, i) => (
-            <g key={i}>
-              <circle cx={getX(i)} cy={getY(point.averagePrice)} r="4" fill="#fff" />
-              <text 
-                x={getX(i)} 
-                y={height + 15} 
-                fill="gray" 
-                fontSize="10" 
-                textAnchor="middle" 
-                className="font-mono"
-              >
-                {point.year}
-              </text>
-              <text 
-                x={getX(i)} 
-                y={getY(point.averagePrice) - 10} 
-                fill="white" 
-                fontSize="10" 
-                textAnchor="middle" 
-                fontWeight="bold"
-              >
-                ${point.averagePrice.toLocaleString()}
-              </text>
-            </g>
-          ))}
-        </svg>
-      </div>
-    );
+  const getGrowthPercent = (history: { year: string; averagePrice: number }[]) => {
+    if (history.length < 2 || history[0].averagePrice <= 0) return null;
+    const first = history[0].averagePrice;
+    const last = history[history.length - 1].averagePrice;
+    return ((last - first) / first * 100).toFixed(0);
+  };
+
+  // Everything on the chart shares one currency: the display currency when the quote converts.
+  const chartCurrency = data && convertAmount(1, data.currency, displayCurrency) !== null ? displayCurrency : data?.currency || displayCurrency;
+
+  const toChartHistory = (market: MarketAnalysis) => {
+    if (convertAmount(1, market.currency, chartCurrency) === null) return null;
+    return market.priceHistory.map(point => ({
+      year: point.year,
+      averagePrice: convertAmount(point.averagePrice, market.currency, chartCurrency) as number,
+    }));
+  };
+
+  const handleAddComparison = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const modelName = compareQuery.trim();
+    if (!modelName || comparisons.some(c => c.modelName === modelName) || modelName === watch.modelName) return;
+    setCompareError(null);
+    setIsComparing(true);
+    try {
+      const result = await fetchMarketAnalysis(modelName);
+      if (convertAmount(1, result.market.currency, chartCurrency) === null) {
+        setCompareError(`Prices for ${modelName} are quoted in ${result.market.currency}, which can't be converted.`);
+        return;
+      }
+      setComparisons(prev => [...prev, { modelName, market: result.market }]);
+      setCompareQuery('');
+    } catch (err) {
+      console.error(err);
+      setCompareError(err instanceof TemporalError && err.kind !== 'UNKNOWN' ? err.userMessage : "Unable to fetch comparison prices.");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const chartSeries: ChartSeries[] = data ? [
+    {
+      id: watch.modelName,
+      label: watch.modelName,
+      color: data.marketSentiment === 'Bearish' ? '#ef4444' : '#10b981',
+      history: toChartHistory(data) || data.priceHistory,
+    },
+    ...comparisons.map((c, i) => ({
+      id: c.modelName,
+      label: c.modelName,
+      color: COMPARISON_COLORS[i % COMPARISON_COLORS.length],
+      history: toChartHistory(c.market) || [],
+    })),
+  ] : [];
+  const band = data && {
+    min: convertAmount(data.currentMinPrice, data.currency, chartCurrency) ?? data.currentMinPrice,
+    max: convertAmount(data.currentMaxPrice, data.currency, chartCurrency) ?? data.currentMaxPrice,
   };
 
   return (
@@ -133,15 +173,55 @@ const InvestorView: React.FC<InvestorViewProps> = ({ watch, onClose }) => {
                 </span>
               </div>
               <div className="text-4xl font-bold text-white mb-1">
-                ${data.currentMinPrice.toLocaleString()} - ${data.currentMaxPrice.toLocaleString()}
+                {formatPrice(data.currentMinPrice)} - {formatPrice(data.currentMaxPrice)}
               </div>
-              <p className="text-gray-500 text-xs mono">Based on recent sold listings</p>
+              <p className="text-gray-500 text-xs mono">
+                Based on recent sold listings{data.currency !== displayCurrency && ` // Quoted in ${data.currency}`}
+              </p>
             </div>
 
             {/* Chart */}
             <div className="glass p-4 rounded-2xl">
-              <h3 className="text-gray-400 text-xs uppercase tracking-widest font-bold mb-4">3-Year Trajectory</h3>
-              {renderChart(data.priceHistory)}
+              <h3 className="text-gray-400 text-xs uppercase tracking-widest font-bold mb-4">Price Trajectory</h3>
+              <PriceChart series={chartSeries} band={band} formatValue={(value) => formatMoney(value, chartCurrency)} />
+
+              {/* Comparisons */}
+              <div className="mt-4 pt-4 border-t border-white/5 space-y-2">
+                {comparisons.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {comparisons.map((c, i) => (
+                      <button
+                        key={c.modelName}
+                        onClick={() => setComparisons(prev => prev.filter(p => p.modelName !== c.modelName))}
+                        className="text-[9px] mono font-bold px-2 py-1 rounded border border-white/10 text-gray-300 flex items-center gap-1 max-w-full"
+                        title="Remove Comparison"
+                      >
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: COMPARISON_COLORS[i % COMPARISON_COLORS.length] }}></span>
+                        <span className="truncate">{c.modelName}</span>
+                        <i className="fas fa-times text-gray-500"></i>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {comparisons.length < MAX_COMPARISONS && (
+                  <form onSubmit={handleAddComparison} className="flex gap-2">
+                    <input
+                      value={compareQuery}
+                      onChange={(e) => setCompareQuery(e.target.value)}
+                      placeholder="Compare with another reference"
+                      className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+                    />
+                    <button
+                      type="submit"
+                      disabled={isComparing || !compareQuery.trim()}
+                      className="px-3 py-2 text-[10px] mono font-bold uppercase rounded-lg border text-emerald-400 border-emerald-500/30 bg-emerald-500/10 disabled:opacity-40"
+                    >
+                      {isComparing ? <i className="fas fa-circle-notch animate-spin"></i> : <><i className="fas fa-plus mr-1"></i> Compare</>}
+                    </button>
+                  </form>
+                )}
+                {compareError && <p className="text-[10px] mono text-red-400">{compareError}</p>}
+              </div>
             </div>
 
             {/* Stats Grid */}
@@ -155,7 +235,7 @@ const InvestorView: React.FC<InvestorViewProps> = ({ watch, onClose }) => {
               <div className="glass p-4 rounded-xl">
                  <p className="text-gray-500 text-[10px] uppercase font-bold">3Y Growth</p>
                  <p className="text-3xl font-bold text-white">
-                   {((data.priceHistory[data.priceHistory.length-1].averagePrice - data.priceHistory[0].averagePrice) / data.priceHistory[0].averagePrice * 100).toFixed(0)}%
+                   {getGrowthPercent(data.priceHistory) !== null ? `${getGrowthPercent(data.priceHistory)}%` : '--'}
                  </p>
               </div>
             </div>
@@ -165,6 +245,35 @@ const InvestorView: React.FC<InvestorViewProps> = ({ watch, onClose }) => {
                <p className="text-gray-300 text-sm italic leading-relaxed">"{data.insight}"</p>
             </div>
 
+            {/* Price Alert */}
+            <form onSubmit={handleSetTarget} className="glass p-4 rounded-xl space-y-2">
+              <div className="flex justify-between items-center">
+                <p className="text-gray-500 text-[10px] uppercase font-bold">Price Alert</p>
+                {watchItem && (
+                  <span className={`text-[10px] mono font-bold ${watchItem.reached ? 'text-amber-400' : 'text-gray-400'}`}>
+                    {watchItem.reached ? 'At Target' : 'Watching'} // {formatMoney(watchItem.targetPrice, watchItem.currency)}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  value={targetInput}
+                  onChange={(e) => setTargetInput(e.target.value)}
+                  placeholder={`Alert me at (${displayCurrency})`}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white mono placeholder-gray-600 focus:outline-none focus:border-amber-500/50"
+                />
+                <button
+                  type="submit"
+                  disabled={!targetInput}
+                  className="px-3 py-2 text-[10px] mono font-bold uppercase rounded-lg bg-amber-500 text-black disabled:opacity-40"
+                >
+                  <i className="fas fa-bell mr-1"></i> {watchItem ? 'Update' : 'Watch'}
+                </button>
+              </div>
+            </form>
+
             {/* CTA */}
             <button 
               onClick={handleEbayClick}
@@ -0,0 +1,137 @@
+
+import React, { useState } from 'react';
+import { Persona } from '../types';
+import { AGE_BRACKETS, PERSONA_REGIONS, MAX_PERSONAS, createPersona } from '../services/personaService';
+import { resizeImage } from '../services/imageService';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  activeId: string | null;
+  onChange: (personas: Persona[]) => void;
+  onActivate: (id: string | null) => void;
+}
+
+// Reference selfies only need to convey a likeness; keep them small for storage.
+const SELFIE_MAX_EDGE = 384;
+
+const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, activeId, onChange, onActivate }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = personas.find(p => p.id === editingId) || null;
+
+  const update = (patch: Partial<Persona>) => {
+    if (!editing) return;
+    onChange(personas.map(p => p.id === editing.id ? { ...p, ...patch } : p));
+  };
+
+  const handleAdd = () => {
+    const persona = createPersona(`Traveller ${personas.length + 1}`);
+    onChange([...personas, persona]);
+    onActivate(persona.id);
+    setEditingId(persona.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(personas.filter(p => p.id !== id));
+    if (activeId === id) onActivate(null);
+    setEditingId(null);
+  };
+
+  const handleSelfie = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const selfie = await resizeImage(await readFileAsDataUrl(file), SELFIE_MAX_EDGE);
+      update({ selfie });
+    } catch (err) {
+      console.error('Selfie import failed:', err);
+    }
+  };
+
+  const inputClass = "w-full bg-black/50 border border-white/10 p-3 text-white rounded-xl text-sm";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        <button
+          onClick={() => { onActivate(null); setEditingId(null); }}
+          className={`shrink-0 px-3 py-2 rounded-xl border text-[10px] mono font-bold uppercase ${activeId === null ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-black/50 border-white/10 text-gray-400'}`}
+        >
+          <i className="fas fa-user-slash mr-1"></i> None
+        </button>
+        {personas.map(persona => (
+          <button
+            key={persona.id}
+            onClick={() => { onActivate(persona.id); setEditingId(persona.id); }}
+            className={`shrink-0 px-3 py-2 rounded-xl border text-[10px] mono font-bold uppercase flex items-center gap-2 ${activeId === persona.id ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-black/50 border-white/10 text-gray-400'}`}
+          >
+            {persona.selfie ? <img src={persona.selfie} className="w-4 h-4 rounded-full object-cover" /> : <i className="fas fa-user"></i>}
+            {persona.name}
+          </button>
+        ))}
+        {personas.length < MAX_PERSONAS && (
+          <button onClick={handleAdd} className="shrink-0 w-9 rounded-xl border border-dashed border-white/20 text-gray-400" title="New Persona">
+            <i className="fas fa-plus"></i>
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="space-y-3 p-3 rounded-2xl border border-white/10 bg-white/[0.02]">
+          <div className="flex gap-3 items-center">
+            <label className="relative w-14 h-14 shrink-0 rounded-full overflow-hidden border border-white/10 bg-black/50 flex items-center justify-center cursor-pointer" title="Reference Selfie">
+              {editing.selfie ? <img src={editing.selfie} className="w-full h-full object-cover" /> : <i className="fas fa-camera text-gray-500"></i>}
+              <input type="file" accept="image/*" capture="user" className="hidden" onChange={(e) => handleSelfie(e.target.files?.[0])} />
+            </label>
+            <input type="text" placeholder="Persona Name" value={editing.name} className={inputClass} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+          {editing.selfie && (
+            <button onClick={() => update({ selfie: undefined })} className="text-[9px] mono text-gray-500 uppercase font-bold">
+              <i className="fas fa-xmark mr-1"></i> Remove Selfie
+            </button>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-[10px] mono text-gray-500 uppercase font-bold tracking-widest">Age Bracket</p>
+            <div className="grid grid-cols-6 gap-1">
+              {AGE_BRACKETS.map(bracket => (
+                <button
+                  key={bracket.id}
+                  onClick={() => update({ ageBracket: bracket.id })}
+                  className={`py-2 rounded-lg border text-[10px] mono font-bold ${editing.ageBracket === bracket.id ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-black/50 border-white/10 text-gray-400'}`}
+                >
+                  {bracket.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <select value={editing.region} className={`${inputClass} appearance-none`} onChange={(e) => update({ region: e.target.value })}>
+            {PERSONA_REGIONS.map(region => (
+              <option key={region.id} value={region.id}>{region.label}</option>
+            ))}
+          </select>
+          <textarea
+            placeholder="Style Notes (e.g. prefers tailoring, always wears glasses)"
+            value={editing.styleNotes}
+            rows={2}
+            className={`${inputClass} resize-none`}
+            onChange={(e) => update({ styleNotes: e.target.value })}
+          />
+          <input type="text" placeholder="Year Override (Optional)" value={editing.customYear || ''} className={inputClass} onChange={(e) => update({ customYear: e.target.value })} />
+
+          <button onClick={() => handleDelete(editing.id)} className="w-full py-2 rounded-xl border border-red-500/30 text-red-400 text-[10px] mono font-bold uppercase">
+            <i className="fas fa-trash mr-1"></i> Delete Persona
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaManager;
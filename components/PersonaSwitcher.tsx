@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { Persona } from '../types';
+
+interface PersonaSwitcherProps {
+  personas: Persona[];
+  activeId: string | null;
+  onSwitch: (id: string | null) => void;
+  disabled: boolean;
+}
+
+const PersonaSwitcher: React.FC<PersonaSwitcherProps> = ({ personas, activeId, onSwitch, disabled }) => {
+  if (personas.length === 0) return null;
+
+  const chip = (id: string | null, label: string, selfie?: string) => (
+    <button
+      key={id || 'none'}
+      onClick={() => id !== activeId && onSwitch(id)}
+      disabled={disabled}
+      className={`shrink-0 h-8 px-3 rounded-full text-[10px] mono font-bold uppercase flex items-center gap-2 transition-all disabled:opacity-40 ${id === activeId ? 'bg-purple-600 text-white shadow-lg shadow-purple-500/20' : 'glass text-gray-400'}`}
+    >
+      {selfie ? <img src={selfie} className="w-5 h-5 rounded-full object-cover" /> : <i className={`fas ${id ? 'fa-user' : 'fa-user-slash'}`}></i>}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] flex items-center">
+        <i className="fas fa-user-astronaut mr-2 text-purple-400"></i> Traveller
+      </h3>
+      <div className="flex gap-2 overflow-x-auto pb-1 -mx-6 px-6">
+        {chip(null, 'None')}
+        {personas.map(persona => chip(persona.id, persona.name, persona.selfie))}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaSwitcher;
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { CollectionEntry } from '../types';
+import { getCollection, estimateValue, purchaseCost } from '../services/collectionService';
+import { formatMoney } from '../services/currencyService';
+import { getCachedMarket, isMarketStale, queueMarketRefresh } from '../services/marketCache';
+import { summarizePortfolio } from '../services/portfolioService';
+import PriceChart from './PriceChart';
+
+interface PortfolioViewProps {
+  onClose: () => void;
+}
+
+type AllocationMode = 'brand' | 'decade';
+
+const formatAge = (timestamp?: number) => {
+  if (!timestamp) return 'Never priced';
+  const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+  return days === 0 ? 'Today' : `${days}d ago`;
+};
+
+// Market reads made outside the collection (e.g. from InvestorView) may be newer than the record's copy.
+const withCachedMarket = (entry: CollectionEntry): CollectionEntry => {
+  const cached = getCachedMarket(entry.modelName);
+  return cached && cached.fetchedAt > (entry.marketUpdatedAt || 0)
+    ? { ...entry, market: cached.market, marketUpdatedAt: cached.fetchedAt }
+    : entry;
+};
+
+const PortfolioView: React.FC<PortfolioViewProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CollectionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [allocation, setAllocation] = useState<AllocationMode>('brand');
+  const [refresh, setRefresh] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    // The collection read is async, so an unmount can land before the queue exists.
+    let cancelled = false;
+    let stopQueue: (() => void) | null = null;
+    const load = async () => {
+      try {
+        const loaded = (await getCollection()).map(withCachedMarket);
+        if (cancelled) return;
+        setEntries(loaded);
+
+        // Stale prices refresh one by one in the background while the dashboard is open.
+        const stale = loaded.filter(entry => isMarketStale(entry.marketUpdatedAt)).map(entry => entry.modelName);
+        if (stale.length) {
+          setRefresh({ done: 0, total: stale.length });
+          stopQueue = queueMarketRefresh(
+            stale,
+            (modelName, result) => {
+              setEntries(prev => prev.map(e => e.modelName === modelName ? { ...e, market: result.market, marketUpdatedAt: result.fetchedAt } : e));
+              setRefresh(prev => prev && { ...prev, done: prev.done + 1 });
+            },
+            () => setRefresh(null)
+          );
+        }
+      } catch (err) {
+        console.error(err);
+        setError("Unable to access the local collection.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+      stopQueue?.();
+    };
+  }, []);
+
+  const summary = summarizePortfolio(entries);
+  const slices = allocation === 'brand' ? summary.byBrand : summary.byDecade;
+  const money = (amount: number) => formatMoney(amount, summary.currency);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Portfolio</h2>
+          <p className="text-[10px] text-emerald-500 mono font-bold uppercase">
+            {refresh ? `Refreshing Prices ${refresh.done}/${refresh.total}` : `${summary.valued}/${summary.count} Pieces Priced`}
+          </p>
+        </div>
+        <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {loading ? (
+          <div className="flex flex-col items-center justify-center h-64 space-y-4">
+            <div className="w-16 h-16 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-emerald-500 mono text-xs uppercase tracking-widest animate-pulse">Valuing Collection...</p>
+          </div>
+        ) : error ? (
+          <div className="p-4 border border-red-500/30 bg-red-500/10 rounded-xl text-red-400 text-center">
+            {error}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center space-y-3">
+            <i className="fas fa-chart-pie text-3xl text-white/20"></i>
+            <p className="text-gray-500 mono text-xs uppercase tracking-widest">Add watches to your collection to value them</p>
+          </div>
+        ) : (
+          <>
+            {/* Value Card */}
+            <div className="glass p-6 rounded-2xl border-emerald-500/20 shadow-[0_0_30px_rgba(16,185,129,0.1)]">
+              <span className="text-gray-400 text-xs uppercase tracking-widest font-bold">Total Estimated Value</span>
+              <div className="text-4xl font-bold text-white mt-2 mono">{money(summary.valueMid)}</div>
+              <p className="text-gray-500 text-xs mono">Range {money(summary.valueMin)} - {money(summary.valueMax)}</p>
+            </div>
+
+            {/* Cost Basis */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="glass p-4 rounded-xl">
+                <p className="text-gray-500 text-[10px] uppercase font-bold">Cost Basis</p>
+                <p className="text-2xl font-bold text-white mono">{money(summary.costBasis)}</p>
+              </div>
+              <div className="glass p-4 rounded-xl">
+                <p className="text-gray-500 text-[10px] uppercase font-bold">Gain / Loss</p>
+                {summary.gain !== null && summary.gainPercent !== null ? (
+                  <p className={`text-2xl font-bold mono ${summary.gain >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {summary.gain >= 0 ? '+' : ''}{summary.gainPercent.toFixed(0)}%
+                  </p>
+                ) : (
+                  <p className="text-2xl font-bold text-white">--</p>
+                )}
+              </div>
+            </div>
+
+            {/* Allocation */}
+            <div className="glass p-4 rounded-2xl space-y-3">
+              <div className="flex justify-between items-center">
+                <h3 className="text-gray-400 text-xs uppercase tracking-widest font-bold">Allocation</h3>
+                <div className="flex gap-1">
+                  {(['brand', 'decade'] as AllocationMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setAllocation(mode)}
+                      className={`text-[9px] mono font-bold uppercase px-2 py-1 rounded ${allocation === mode ? 'bg-emerald-500 text-black' : 'text-gray-400 bg-white/5'}`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {slices.length === 0 ? (
+                <p className="text-[10px] mono text-gray-500 uppercase">No priced pieces yet</p>
+              ) : slices.map(slice => (
+                <div key={slice.label} className="space-y-1">
+                  <div className="flex justify-between text-[10px] mono">
+                    <span className="text-white font-bold">{slice.label} <span className="text-gray-500">x{slice.count}</span></span>
+                    <span className="text-gray-400">{Math.round(slice.share * 100)}%</span>
+                  </div>
+                  <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500" style={{ width: `${slice.share * 100}%` }}></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Combined History */}
+            <div className="glass p-4 rounded-2xl">
+              <h3 className="text-gray-400 text-xs uppercase tracking-widest font-bold mb-4">Collection Value History</h3>
+              <PriceChart
+                series={[{ id: 'collection', label: 'Collection', color: '#10b981', history: summary.history.map(h => ({ year: h.year, averagePrice: h.value })) }]}
+                band={summary.valued ? { min: summary.valueMin, max: summary.valueMax } : null}
+                formatValue={money}
+                defaultWindow="10y"
+              />
+            </div>
+
+            {/* Holdings */}
+            <div className="space-y-2">
+              <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] flex items-center">
+                <i className="fas fa-list mr-2 text-emerald-500"></i> Holdings
+              </h3>
+              {entries.map(entry => {
+                const value = estimateValue(entry, summary.currency);
+                const paid = purchaseCost(entry, summary.currency);
+                const stale = isMarketStale(entry.marketUpdatedAt);
+                return (
+                  <div key={entry.modelName} className="flex items-center gap-3 py-2 border-b border-white/5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-white truncate">{entry.modelName}</p>
+                      <p className={`text-[8px] mono uppercase ${stale ? 'text-amber-400' : 'text-gray-500'}`}>{formatAge(entry.marketUpdatedAt)}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xs mono text-emerald-400 font-bold">{value !== null ? money(value) : '--'}</p>
+                      <p className="text-[8px] mono text-gray-500">{paid !== null ? `Paid ${money(paid)}` : 'No cost basis'}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioView;
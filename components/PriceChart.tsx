@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import {
+  CHART_WINDOWS,
+  ChartPoint,
+  ChartWindow,
+  applyWindow,
+  computeDomain,
+  formatChartYear,
+  nearestPoint,
+  toChartPoints
+} from '../services/chartService';
+
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string;
+  history: { year: string; averagePrice: number }[];
+}
+
+interface PriceChartProps {
+  // The first series is the primary line; the rest are drawn as comparisons.
+  series: ChartSeries[];
+  // Current min/max price spread, drawn as a shaded band.
+  band?: { min: number; max: number } | null;
+  formatValue: (value: number) => string;
+  defaultWindow?: ChartWindow;
+}
+
+const WIDTH = 320;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 12, bottom: 24, left: 52 };
+// Hover snaps to a series point only when it sits on the crosshair's year.
+const SAME_YEAR = 0.01;
+
+const PriceChart: React.FC<PriceChartProps> = ({ series, band, formatValue, defaultWindow = '3y' }) => {
+  const [timeWindow, setTimeWindow] = useState<ChartWindow>(defaultWindow);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const allSeries = series.map(s => ({ ...s, points: toChartPoints(s.history) }));
+  const primary = allSeries[0]?.points || [];
+  const latest = Math.max(...allSeries.flatMap(s => s.points.map(p => p.x)));
+  const visible = allSeries.map(s => ({ ...s, points: applyWindow(s.points, timeWindow, latest) }));
+  const primaryVisible = visible[0]?.points || [];
+  // The primary series sets the time window; comparisons are clipped to it.
+  const xFloor = primaryVisible.length ? primaryVisible[0].x : -Infinity;
+  const shown = visible.map((s, i) => i === 0 ? s : { ...s, points: s.points.filter(p => p.x >= xFloor) });
+  const shownPoints = shown.flatMap(s => s.points);
+
+  const domain = computeDomain(shownPoints, band ? [band.min, band.max] : []);
+  if (!domain || primary.length === 0) {
+    return <p className="text-center text-gray-500 mono text-[10px] uppercase py-6">Not enough price history yet</p>;
+  }
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const getX = (x: number) => PAD.left + ((x - domain.xMin) / (domain.xMax - domain.xMin)) * plotWidth;
+  const getY = (value: number) => PAD.top + (1 - (value - domain.yMin) / (domain.yMax - domain.yMin)) * plotHeight;
+
+  const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const x = domain.xMin + ((svgX - PAD.left) / plotWidth) * (domain.xMax - domain.xMin);
+    setHoverX(nearestPoint(shownPoints, x)?.x ?? null);
+  };
+
+  const hoverValues = hoverX === null ? [] : shown
+    .map(s => ({ s, point: s.points.find(p => Math.abs(p.x - hoverX) < SAME_YEAR) }))
+    .filter((hit): hit is { s: typeof shown[number]; point: ChartPoint } => !!hit.point);
+  const hoverLeft = hoverX === null ? 0 : (getX(hoverX) / WIDTH) * 100;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {shown.length > 1 && shown.map(s => (
+            <span key={s.id} className="text-[9px] mono text-gray-400 flex items-center gap-1 max-w-[10rem] truncate">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: s.color }}></span>
+              {s.label}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {CHART_WINDOWS.map(w => (
+            <button
+              key={w.id}
+              onClick={() => setTimeWindow(w.id)}
+              className={`text-[9px] mono font-bold uppercase px-2 py-1 rounded ${timeWindow === w.id ? 'bg-emerald-500 text-black' : 'text-gray-400 bg-white/5'}`}
+            >
+              {w.id}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          width="100%"
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="overflow-visible select-none"
+          style={{ touchAction: 'pan-y' }}
+          onPointerMove={handlePointer}
+          onPointerDown={handlePointer}
+          onPointerLeave={() => setHoverX(null)}
+        >
+          {/* Current price band */}
+          {band && (
+            <rect
+              x={PAD.left}
+              y={getY(band.max)}
+              width={plotWidth}
+              height={Math.max(getY(band.min) - getY(band.max), 1)}
+              fill="rgba(16,185,129,0.12)"
+            />
+          )}
+
+          {/* Axes */}
+          {domain.yTicks.map(tick => (
+            <g key={tick}>
+              <line x1={PAD.left} y1={getY(tick)} x2={WIDTH - PAD.right} y2={getY(tick)} stroke="rgba(255,255,255,0.08)" strokeDasharray="4" />
+              <text x={PAD.left - 6} y={getY(tick) + 3} fill="gray" fontSize="9" textAnchor="end" className="font-mono">{formatValue(tick)}</text>
+            </g>
+          ))}
+          {domain.xTicks.map(year => (
+            <text key={year} x={getX(year)} y={HEIGHT - 6} fill="gray" fontSize="9" textAnchor="middle" className="font-mono">{year}</text>
+          ))}
+
+          {/* Comparisons first so the primary line draws on top */}
+          {[...shown].reverse().map((s, i) => {
+            const isPrimary = i === shown.length - 1;
+            return (
+              <g key={s.id}>
+                {s.points.length > 1 && (
+                  <polyline
+                    fill="none"
+                    stroke={s.color}
+                    strokeWidth={isPrimary ? 3 : 2}
+                    strokeDasharray={isPrimary ? undefined : '6 3'}
+                    points={s.points.map(p => `${getX(p.x)},${getY(p.value)}`).join(' ')}
+                  />
+                )}
+                {(isPrimary || s.points.length === 1) && s.points.map(p => (
+                  <circle key={p.x} cx={getX(p.x)} cy={getY(p.value)} r={isPrimary ? 3.5 : 2.5} fill={isPrimary ? '#fff' : s.color} />
+                ))}
+              </g>
+            );
+          })}
+
+          {/* Crosshair */}
+          {hoverX !== null && (
+            <g>
+              <line x1={getX(hoverX)} y1={PAD.top} x2={getX(hoverX)} y2={HEIGHT - PAD.bottom} stroke="rgba(255,255,255,0.4)" />
+              {hoverValues.map(({ s, point }) => (
+                <circle key={s.id} cx={getX(point.x)} cy={getY(point.value)} r="5" fill="none" stroke={s.color} strokeWidth="2" />
+              ))}
+            </g>
+          )}
+        </svg>
+
+        {hoverX !== null && hoverValues.length > 0 && (
+          <div
+            className="absolute top-0 glass rounded-lg px-2 py-1.5 pointer-events-none space-y-0.5 z-10"
+            style={{ left: `${hoverLeft}%`, transform: `translateX(${hoverLeft > 50 ? 'calc(-100% - 8px)' : '8px'})` }}
+          >
+            <p className="text-[9px] mono text-gray-400 font-bold">{formatChartYear(hoverX)}</p>
+            {hoverValues.map(({ s, point }) => (
+              <p key={s.id} className="text-[10px] mono font-bold whitespace-nowrap" style={{ color: s.color }}>
+                {formatValue(point.value)}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -1,32 +1,74 @@
 
-import React, { useState } from 'react';
-import { WatchInfo, MarketingScenario, UserPreferences, ForensicPoint, MovieAssociation } from '../types';
+import React, { useState, useEffect } from 'react';
+import { WatchInfo, MarketingScenario, Persona, ForensicPoint, MovieAssociation, EraVariant } from '../types';
+import TemporalGuide from './TemporalGuide';
+import CompareView from './CompareView';
+import VariantCarousel from './VariantCarousel';
+import AdGallery from './AdGallery';
+import PersonaSwitcher from './PersonaSwitcher';
+import TimelineScrubber from './TimelineScrubber';
+import { shareImage } from '../services/imageService';
+import { findShot } from '../services/cameraService';
+import { MontageFrame } from '../services/montageService';
 
 interface ResultViewProps {
   originalImage: string;
-  blueprintImage: string;
-  transformedImage: string;
+  blueprintImage: string | null;
+  transformedImage: string | null;
   watch: WatchInfo;
+  isStreaming: boolean;
   onReset: () => void;
   onSelectScenario: (scenario: MarketingScenario) => void;
   onSelectMovie: (movie: MovieAssociation) => void;
   onRefreshImage: (scenario: MarketingScenario | null, movie: MovieAssociation | null) => void;
   onShowInvestor: () => void;
+  isOwned: boolean;
+  onAddToCollection: () => void;
+  onRequestBlueprint: () => void;
+  isGeneratingBlueprint: boolean;
   isTransmuting: boolean;
-  userPrefs: UserPreferences;
+  variants: EraVariant[];
+  pendingVariantCount: number;
+  onSelectVariant: (variant: EraVariant) => void;
+  onToggleFavorite: (variant: EraVariant) => void;
+  personas: Persona[];
+  activePersonaId: string | null;
+  onSwitchPersona: (personaId: string | null, scenario: MarketingScenario | null, movie: MovieAssociation | null) => void;
+  cachedYears: string[];
+  onSelectYear: (year: string) => void;
+  onRenderMontage: (years: string[], onProgress: (done: number) => void) => Promise<MontageFrame[]>;
+  // Re-runs the deterministic serial check with user-typed caseback text.
+  onDecodeSerial: (text: string) => void;
   generationTime?: number;
 }
 
 const ResultView: React.FC<ResultViewProps> = ({ 
+  originalImage,
   transformedImage, 
   blueprintImage,
   watch, 
+  isStreaming,
   onReset, 
   onSelectScenario,
   onSelectMovie,
   onRefreshImage,
   onShowInvestor,
+  isOwned,
+  onAddToCollection,
+  onRequestBlueprint,
+  isGeneratingBlueprint,
   isTransmuting,
+  variants,
+  pendingVariantCount,
+  onSelectVariant,
+  onToggleFavorite,
+  personas,
+  activePersonaId,
+  onSwitchPersona,
+  cachedYears,
+  onSelectYear,
+  onRenderMontage,
+  onDecodeSerial,
   generationTime
 }) => {
   const [showForensics, setShowForensics] = useState(false);
@@ -34,6 +76,14 @@ const ResultView: React.FC<ResultViewProps> = ({
   const [selectedScenario, setSelectedScenario] = useState<MarketingScenario | null>(null);
   const [selectedMovie, setSelectedMovie] = useState<MovieAssociation | null>(null);
   const [isSharing, setIsSharing] = useState(false);
+  const [showGuide, setShowGuide] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [serialInput, setSerialInput] = useState(watch.casebackText || '');
+
+  // The model's reading streams in late; show it once it arrives.
+  useEffect(() => {
+    if (watch.casebackText) setSerialInput(watch.casebackText);
+  }, [watch.casebackText]);
 
   const getStatusColor = (status: ForensicPoint['status']) => {
     switch (status) {
@@ -44,30 +94,28 @@ const ResultView: React.FC<ResultViewProps> = ({
     }
   };
 
+  const isBlueprintVisible = showBlueprint && Boolean(blueprintImage) && !isComparing;
+  // The dossier can arrive before the era image; hold actions until both are in.
+  const isPortalPending = !transformedImage;
+  const isLocked = isTransmuting || isPortalPending || isStreaming;
+
+  const handleToggleBlueprint = () => {
+    // Fast pipeline scans have no blueprint yet; generate it on first use.
+    if (!showBlueprint && !blueprintImage) onRequestBlueprint();
+    setShowBlueprint(!showBlueprint);
+  };
+
   const handleShare = async () => {
-    const imageToShare = showBlueprint ? blueprintImage : transformedImage;
+    const imageToShare = isBlueprintVisible ? blueprintImage : transformedImage;
     if (!imageToShare || isSharing) return;
     setIsSharing(true);
 
     try {
-      const blob = await (await fetch(imageToShare)).blob();
-      const file = new File([blob], `chrono-${watch.modelName.replace(/\s+/g, '-').toLowerCase()}.png`, { type: 'image/png' });
-      
-      const shareData = {
-        title: 'ChronoPortal - Time Travel via Horology',
-        text: `Check out my artifact's history in the ChronoPortal! #chronoportalpowerbyGemini`,
-        files: [file],
-      };
-
-      if (navigator.canShare && navigator.canShare(shareData)) {
-        await navigator.share(shareData);
-      } else {
-        // Fallback: Download the image
-        const link = document.createElement('a');
-        link.href = imageToShare;
-        link.download = `chronoportal-${watch.releaseYear}.png`;
-        link.click();
-      }
+      await shareImage(
+        imageToShare,
+        `chrono-${watch.modelName.replace(/\s+/g, '-').toLowerCase()}.png`,
+        `Check out my artifact's history in the ChronoPortal! #chronoportalpowerbyGemini`
+      );
     } catch (err) {
       console.error('Error sharing temporal artifact:', err);
     } finally {
@@ -80,11 +128,20 @@ const ResultView: React.FC<ResultViewProps> = ({
       {/* Primary Visual Artifact - 9:16 aspect ratio */}
       <div className="relative w-full aspect-[9/16] shrink-0 bg-zinc-900 overflow-hidden">
         <img 
-            src={showBlueprint ? blueprintImage : transformedImage} 
-            className={`w-full h-full object-cover shadow-2xl transition-all duration-700 ${isTransmuting ? 'opacity-40 grayscale blur-sm' : 'opacity-100'} ${showBlueprint ? 'contrast-125 brightness-110' : ''}`} 
+            src={isBlueprintVisible && blueprintImage ? blueprintImage : transformedImage || originalImage} 
+            className={`w-full h-full object-cover shadow-2xl transition-all duration-700 ${isTransmuting || isPortalPending || (showBlueprint && isGeneratingBlueprint) ? 'opacity-40 grayscale blur-sm' : 'opacity-100'} ${isBlueprintVisible ? 'contrast-125 brightness-110' : ''}`} 
         />
         
-        {showBlueprint && (
+        {isComparing && transformedImage && (
+          <CompareView
+            originalImage={originalImage}
+            blueprintImage={blueprintImage}
+            transformedImage={transformedImage}
+            watch={watch}
+          />
+        )}
+
+        {isBlueprintVisible && (
           <div className="absolute inset-0 pointer-events-none">
             <div className="absolute inset-0 scan-line opacity-30"></div>
             <div className="absolute inset-0 border-[20px] border-blue-500/10 pointer-events-none"></div>
@@ -104,7 +161,23 @@ const ResultView: React.FC<ResultViewProps> = ({
           </div>
         )}
 
-        {isTransmuting && (
+        {showBlueprint && isGeneratingBlueprint && !isTransmuting && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/40 backdrop-blur-sm">
+            <div className="w-12 h-12 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-[10px] mono text-cyan-400 font-bold uppercase tracking-[0.2em] animate-pulse">Extracting Blueprint...</p>
+          </div>
+        )}
+
+        {isPortalPending && !isBlueprintVisible && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/40 backdrop-blur-sm">
+            <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-[10px] mono text-purple-400 font-bold uppercase tracking-[0.2em] animate-pulse">
+              {isStreaming ? 'Receiving Dossier...' : 'Opening Temporal Corridor...'}
+            </p>
+          </div>
+        )}
+
+        {isTransmuting && !isPortalPending && (
           <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/40 backdrop-blur-sm">
             <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
             <p className="text-[10px] mono text-blue-400 font-bold uppercase tracking-[0.2em] animate-pulse">Syncing Reality...</p>
@@ -119,8 +192,16 @@ const ResultView: React.FC<ResultViewProps> = ({
         
         <div className="absolute top-4 right-4 flex gap-2">
           <button 
-            onClick={() => setShowBlueprint(!showBlueprint)}
-            disabled={isTransmuting}
+            onClick={() => setIsComparing(!isComparing)}
+            disabled={isLocked}
+            className={`w-10 h-10 rounded-full flex items-center justify-center transition-all active:scale-90 ${isComparing ? 'bg-white text-black shadow-lg shadow-white/30' : 'glass text-white'}`}
+            title="Compare Then vs. Now"
+          >
+            <i className="fas fa-code-compare"></i>
+          </button>
+          <button 
+            onClick={handleToggleBlueprint}
+            disabled={isLocked || isGeneratingBlueprint || isComparing}
             className={`w-10 h-10 rounded-full flex items-center justify-center transition-all active:scale-90 ${showBlueprint ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/50' : 'glass text-white'}`}
             title="Toggle Neural Blueprint"
           >
@@ -128,7 +209,7 @@ const ResultView: React.FC<ResultViewProps> = ({
           </button>
           <button 
             onClick={handleShare}
-            disabled={isTransmuting || isSharing}
+            disabled={isLocked || isSharing}
             className="w-10 h-10 glass rounded-full flex items-center justify-center text-white active:scale-90 transition-transform"
             title="Share Temporal Artifact"
           >
@@ -136,7 +217,7 @@ const ResultView: React.FC<ResultViewProps> = ({
           </button>
           <button 
             onClick={() => onRefreshImage(selectedScenario, selectedMovie)}
-            disabled={isTransmuting}
+            disabled={isLocked}
             className="w-10 h-10 glass rounded-full flex items-center justify-center text-white active:scale-90 transition-transform"
             title="Recalibrate Image"
           >
@@ -144,15 +225,44 @@ const ResultView: React.FC<ResultViewProps> = ({
           </button>
         </div>
 
-        <div className="absolute bottom-4 left-4">
-           <div className={`glass px-3 py-1 rounded-full text-[10px] mono font-bold uppercase tracking-widest border shadow-lg transition-colors ${showBlueprint ? 'text-blue-400 border-blue-500/50 shadow-blue-500/20' : 'text-blue-400 border-blue-500/20 shadow-blue-500/10'}`}>
-              {showBlueprint ? 'Neural Analysis' : 'Reality Verified'}
-           </div>
-        </div>
+        {!isComparing && (
+          <div className="absolute bottom-4 left-4">
+             <div className={`glass px-3 py-1 rounded-full text-[10px] mono font-bold uppercase tracking-widest border shadow-lg transition-colors ${isBlueprintVisible ? 'text-blue-400 border-blue-500/50 shadow-blue-500/20' : 'text-blue-400 border-blue-500/20 shadow-blue-500/10'}`}>
+                {isBlueprintVisible ? 'Neural Analysis' : 'Reality Verified'}
+             </div>
+          </div>
+        )}
       </div>
 
       {/* Artifact Intelligence Panel */}
       <div className="p-6 space-y-8 bg-black">
+        <VariantCarousel
+          variants={variants}
+          activeImage={transformedImage}
+          pendingCount={pendingVariantCount}
+          onSelect={onSelectVariant}
+          onToggleFavorite={onToggleFavorite}
+          disabled={isPortalPending}
+        />
+
+        <PersonaSwitcher
+          personas={personas}
+          activeId={activePersonaId}
+          onSwitch={(id) => onSwitchPersona(id, selectedScenario, selectedMovie)}
+          disabled={isLocked}
+        />
+
+        {!isStreaming && (
+          <TimelineScrubber
+            key={watch.modelName}
+            watch={watch}
+            cachedYears={cachedYears}
+            onSelectYear={onSelectYear}
+            onRenderMontage={onRenderMontage}
+            disabled={isLocked}
+          />
+        )}
+
         <div className="space-y-2">
           <h2 className="text-3xl font-bold text-white leading-tight tracking-tight">{watch.modelName}</h2>
           <div className="flex items-center gap-3">
@@ -160,6 +270,16 @@ const ResultView: React.FC<ResultViewProps> = ({
                <i className="fas fa-calendar-alt text-blue-500 text-sm"></i>
                <p className="text-blue-500 mono text-lg font-bold">{watch.releaseYear}</p>
             </div>
+            {!isStreaming && watch.confidence !== undefined && (
+              <span className="text-[8px] mono text-gray-400 font-bold uppercase tracking-widest" title={watch.alternates?.length ? `Also considered: ${watch.alternates.map(a => a.modelName).join(', ')}` : undefined}>
+                {Math.round(watch.confidence * 100)}% Match
+              </span>
+            )}
+            {isStreaming && (
+              <span className="text-[8px] mono text-purple-400 font-bold uppercase tracking-widest animate-pulse">
+                <i className="fas fa-satellite-dish mr-1"></i> Streaming
+              </span>
+            )}
             <div className="h-4 w-[1px] bg-white/10"></div>
             <button 
                 onClick={() => setShowForensics(!showForensics)} 
@@ -183,13 +303,41 @@ const ResultView: React.FC<ResultViewProps> = ({
                   <div key={idx} className="space-y-1 border-l-2 border-green-500/20 pl-3">
                      <div className="flex justify-between items-center">
                         <span className="text-[10px] mono text-gray-500 uppercase font-bold">{point.feature}</span>
-                        <span className={`text-[8px] mono px-1.5 py-0.5 rounded border font-bold ${getStatusColor(point.status)}`}>{point.status}</span>
+                        <div className="flex items-center gap-1.5">
+                          {point.shot && (
+                            <span className="text-[8px] mono px-1.5 py-0.5 rounded border border-white/10 text-gray-400 uppercase font-bold" title="Supporting shot">
+                              <i className={`fas ${findShot(point.shot).icon} mr-1`}></i>{findShot(point.shot).label}
+                            </span>
+                          )}
+                          <span className={`text-[8px] mono px-1.5 py-0.5 rounded border font-bold ${getStatusColor(point.status)}`}>{point.status}</span>
+                        </div>
                      </div>
                      <p className="text-xs text-white font-medium">{point.observation}</p>
                      <p className="text-[10px] text-gray-400 italic leading-tight mt-1 opacity-70">"{point.details}"</p>
                   </div>
                 ))}
              </div>
+             <form
+               className="mt-4 pt-4 border-t border-white/5 flex items-center gap-2"
+               onSubmit={(e) => {
+                 e.preventDefault();
+                 onDecodeSerial(serialInput);
+               }}
+             >
+               <input
+                 value={serialInput}
+                 onChange={(e) => setSerialInput(e.target.value)}
+                 placeholder="Caseback serial"
+                 className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs mono text-white placeholder-gray-600 focus:outline-none focus:border-green-500/50"
+               />
+               <button
+                 type="submit"
+                 disabled={isStreaming || !serialInput.trim()}
+                 className="shrink-0 text-[10px] mono font-bold uppercase px-3 py-2 rounded-lg border text-green-400 border-green-400/20 bg-green-400/10 disabled:opacity-40"
+               >
+                 <i className="fas fa-barcode mr-1"></i> Decode
+               </button>
+             </form>
           </div>
         )}
 
@@ -203,6 +351,7 @@ const ResultView: React.FC<ResultViewProps> = ({
               {watch.associatedMovies.map((movie, idx) => (
                 <button 
                   key={idx} 
+                  disabled={isLocked}
                   onClick={() => {
                     setSelectedMovie(movie);
                     setSelectedScenario(null);
@@ -233,9 +382,10 @@ const ResultView: React.FC<ResultViewProps> = ({
                <i className="fas fa-bullhorn mr-2 text-blue-400"></i> Historical Scenarios
              </h3>
              <div className="grid grid-cols-1 gap-2">
-                {watch.marketingScenarios.map((scenario) => (
+                {watch.marketingScenarios.map((scenario, idx) => (
                   <button
-                    key={scenario.id}
+                    key={scenario.id || idx}
+                    disabled={isLocked}
                     onClick={() => {
                       setSelectedScenario(scenario);
                       setSelectedMovie(null);
@@ -258,6 +408,9 @@ const ResultView: React.FC<ResultViewProps> = ({
           </div>
         )}
 
+        {/* Vintage Ads */}
+        <AdGallery key={watch.modelName} originalImage={originalImage} watch={watch} disabled={isLocked} />
+
         <div className="glass p-5 rounded-2xl border-l-4 border-amber-500 space-y-2">
           <h3 className="text-[10px] font-bold text-amber-500 uppercase tracking-widest">Horological Insight</h3>
           <p className="text-gray-300 text-sm leading-relaxed italic">
@@ -267,17 +420,40 @@ const ResultView: React.FC<ResultViewProps> = ({
 
         {/* Global CTAs */}
         <div className="flex flex-col gap-3 pt-4 border-t border-white/5">
-            <button onClick={onShowInvestor} className="w-full py-4 bg-emerald-500 text-black font-bold rounded-2xl hover:bg-emerald-400 transition-all shadow-lg shadow-emerald-500/10 active:scale-[0.98] flex items-center justify-center gap-2">
+            <button onClick={() => setShowGuide(true)} disabled={isLocked} className="w-full py-4 bg-purple-600 text-white font-bold rounded-2xl hover:bg-purple-500 transition-all shadow-lg shadow-purple-500/10 active:scale-[0.98] flex items-center justify-center gap-2 disabled:opacity-40">
+               <i className="fas fa-microphone-lines"></i>
+               <span className="uppercase tracking-[0.2em] text-xs font-bold">Talk to someone from {watch.releaseYear}</span>
+            </button>
+
+            <button onClick={onShowInvestor} disabled={isLocked} className="w-full py-4 bg-emerald-500 text-black font-bold rounded-2xl hover:bg-emerald-400 transition-all shadow-lg shadow-emerald-500/10 active:scale-[0.98] flex items-center justify-center gap-2 disabled:opacity-40">
                <i className="fas fa-chart-line"></i>
                <span className="uppercase tracking-[0.2em] text-xs font-bold">Invest Analyst Protocol</span>
             </button>
 
-            <button onClick={onReset} className="w-full py-4 bg-white text-black font-bold rounded-2xl flex items-center justify-center gap-2 active:scale-[0.98] transition-all">
+            <button
+              onClick={onAddToCollection}
+              disabled={isLocked || isOwned}
+              className={`w-full py-4 font-bold rounded-2xl flex items-center justify-center gap-2 active:scale-[0.98] transition-all border ${isOwned ? 'border-blue-500/30 bg-blue-500/10 text-blue-400' : 'border-white/10 glass text-white disabled:opacity-40'}`}
+            >
+              <i className={`fas ${isOwned ? 'fa-check' : 'fa-vault'}`}></i>
+              <span className="uppercase tracking-[0.2em] text-xs font-bold">{isOwned ? 'In Your Collection' : 'Add to Collection'}</span>
+            </button>
+
+            <button onClick={onReset} disabled={isStreaming || isPortalPending} className="w-full py-4 bg-white text-black font-bold rounded-2xl flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-40">
               <i className="fas fa-camera"></i>
               <span className="uppercase tracking-[0.2em] text-xs font-bold">Initiate New Artifact Scan</span>
             </button>
         </div>
       </div>
+
+      {showGuide && (
+        <TemporalGuide
+          watch={watch}
+          scenario={selectedScenario}
+          movie={selectedMovie}
+          onClose={() => setShowGuide(false)}
+        />
+      )}
     </div>
   );
 };
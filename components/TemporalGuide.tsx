@@ -0,0 +1,323 @@
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { WatchInfo, MarketingScenario, MovieAssociation } from '../types';
+import { connectTemporalGuide } from '../services/aiProvider';
+import { TemporalGuideSession, decodeAudioData, decodeBase64, encodePCM } from '../services/liveService';
+import { startFrameStream } from '../services/frameStream';
+
+interface TemporalGuideProps {
+  watch: WatchInfo;
+  scenario: MarketingScenario | null;
+  movie: MovieAssociation | null;
+  onClose: () => void;
+}
+
+interface TranscriptLine {
+  isUser: boolean;
+  text: string;
+}
+
+type LinkStatus = 'idle' | 'connecting' | 'live' | 'error';
+
+// Live API expects 16kHz PCM in and streams 24kHz PCM out.
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const MIC_BUFFER_SIZE = 4096;
+
+const buildEraBriefing = (watch: WatchInfo, scenario: MarketingScenario | null, movie: MovieAssociation | null) => {
+  let briefing = `The year is ${watch.releaseYear}. ${watch.eraContext} The user wears a ${watch.modelName}.`;
+  if (scenario) {
+    briefing += ` The scene: ${scenario.title} - ${scenario.description}`;
+  } else if (movie) {
+    briefing += ` The scene is inspired by the film "${movie.movieTitle}" (${movie.characterName}): ${movie.context}`;
+  }
+  return briefing;
+};
+
+const TemporalGuide: React.FC<TemporalGuideProps> = ({ watch, scenario, movie, onClose }) => {
+  const [status, setStatus] = useState<LinkStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([]);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isVisionOn, setIsVisionOn] = useState(false);
+  const [framesSent, setFramesSent] = useState(0);
+  const [framesDropped, setFramesDropped] = useState(0);
+
+  const sessionRef = useRef<TemporalGuideSession | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const inputCtxRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const outputCtxRef = useRef<AudioContext | null>(null);
+  const nextStartTimeRef = useRef(0);
+  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+  const visionVideoRef = useRef<HTMLVideoElement>(null);
+  const visionStreamRef = useRef<MediaStream | null>(null);
+  const stopFramesRef = useRef<(() => void) | null>(null);
+  // Bumped on every start and stop; an async step that resumes under an older value was cancelled.
+  const linkGenerationRef = useRef(0);
+  const visionGenerationRef = useRef(0);
+
+  const flushPlayback = useCallback(() => {
+    activeSourcesRef.current.forEach(source => {
+      try { source.stop(); } catch { /* already stopped */ }
+    });
+    activeSourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    setIsSpeaking(false);
+  }, []);
+
+  const playChunk = useCallback(async (base64Audio: string) => {
+    const ctx = outputCtxRef.current;
+    if (!ctx) return;
+
+    const buffer = await decodeAudioData(decodeBase64(base64Audio), ctx, OUTPUT_SAMPLE_RATE, 1);
+    // Chain chunks back-to-back so playback stays gapless.
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      activeSourcesRef.current.delete(source);
+      if (activeSourcesRef.current.size === 0) setIsSpeaking(false);
+    };
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += buffer.duration;
+    activeSourcesRef.current.add(source);
+    setIsSpeaking(true);
+  }, []);
+
+  const appendTranscript = useCallback((text: string, isUser: boolean) => {
+    if (!text) return;
+    setTranscript(prev => {
+      const last = prev[prev.length - 1];
+      // Transcriptions arrive in fragments; merge consecutive fragments from the same speaker.
+      if (last && last.isUser === isUser) {
+        return [...prev.slice(0, -1), { isUser, text: last.text + text }];
+      }
+      return [...prev, { isUser, text }];
+    });
+  }, []);
+
+  const stopVision = useCallback(() => {
+    visionGenerationRef.current++;
+    stopFramesRef.current?.();
+    stopFramesRef.current = null;
+    visionStreamRef.current?.getTracks().forEach(track => track.stop());
+    visionStreamRef.current = null;
+    setIsVisionOn(false);
+  }, []);
+
+  const startVision = async () => {
+    if (!sessionRef.current || visionStreamRef.current) return;
+    const generation = ++visionGenerationRef.current;
+    try {
+      const videoStream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false
+      });
+      if (generation !== visionGenerationRef.current) {
+        videoStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      visionStreamRef.current = videoStream;
+      setFramesSent(0);
+      setFramesDropped(0);
+      setIsVisionOn(true);
+    } catch (err) {
+      if (generation !== visionGenerationRef.current) return;
+      console.error("Vision uplink failed", err);
+      setError("Camera access is required to share your view with the guide.");
+    }
+  };
+
+  // Attach the stream once the preview element is mounted, then start sampling frames.
+  useEffect(() => {
+    const video = visionVideoRef.current;
+    if (!isVisionOn || !video || !visionStreamRef.current) return;
+    video.srcObject = visionStreamRef.current;
+    stopFramesRef.current = startFrameStream(video, (frame) => {
+      sessionRef.current?.sendFrame(frame);
+      setFramesSent(count => count + 1);
+    }, () => setFramesDropped(count => count + 1));
+    return () => {
+      stopFramesRef.current?.();
+      stopFramesRef.current = null;
+    };
+  }, [isVisionOn]);
+
+  const stopLink = useCallback(() => {
+    linkGenerationRef.current++;
+    stopVision();
+    processorRef.current?.disconnect();
+    processorRef.current = null;
+    micStreamRef.current?.getTracks().forEach(track => track.stop());
+    micStreamRef.current = null;
+    inputCtxRef.current?.close().catch(() => {});
+    inputCtxRef.current = null;
+    flushPlayback();
+    outputCtxRef.current?.close().catch(() => {});
+    outputCtxRef.current = null;
+    sessionRef.current?.close();
+    sessionRef.current = null;
+  }, [flushPlayback, stopVision]);
+
+  const startLink = async () => {
+    if (status === 'connecting' || status === 'live') return;
+    setError(null);
+    setStatus('connecting');
+    const generation = ++linkGenerationRef.current;
+    const isCancelled = () => generation !== linkGenerationRef.current;
+
+    try {
+      const micStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+      if (isCancelled()) {
+        micStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      micStreamRef.current = micStream;
+
+      outputCtxRef.current = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+      const inputCtx = new AudioContext({ sampleRate: INPUT_SAMPLE_RATE });
+      inputCtxRef.current = inputCtx;
+
+      const session = await connectTemporalGuide(buildEraBriefing(watch, scenario, movie), {
+        onTranscription: appendTranscript,
+        onAudioChunk: (chunk) => { playChunk(chunk).catch(err => console.error("Audio decode failed", err)); },
+        onInterrupted: flushPlayback,
+        onDisconnected: (reason) => {
+          if (isCancelled()) return;
+          console.warn("Temporal Guide link dropped", reason);
+          stopLink();
+          setError("The channel to the past was lost. Reconnect to keep talking.");
+          setStatus('error');
+        },
+      });
+      // Closed or unmounted while connecting: stopLink already released the mic and contexts.
+      if (isCancelled()) {
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+
+      const sourceNode = inputCtx.createMediaStreamSource(micStream);
+      const processor = inputCtx.createScriptProcessor(MIC_BUFFER_SIZE, 1, 1);
+      processor.onaudioprocess = (event) => {
+        sessionRef.current?.sendAudio(encodePCM(event.inputBuffer.getChannelData(0)));
+      };
+      sourceNode.connect(processor);
+      processor.connect(inputCtx.destination);
+      processorRef.current = processor;
+
+      setStatus('live');
+    } catch (err) {
+      if (isCancelled()) return;
+      console.error("Temporal Guide link failed", err);
+      stopLink();
+      setError("Unable to open a voice channel to the past. Check microphone permissions.");
+      setStatus('error');
+    }
+  };
+
+  const endLink = () => {
+    stopLink();
+    setStatus('idle');
+  };
+
+  const toggleVision = () => {
+    if (isVisionOn) stopVision();
+    else startVision();
+  };
+
+  useEffect(() => stopLink, [stopLink]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript]);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Temporal Guide</h2>
+          <p className="text-[10px] text-purple-400 mono font-bold uppercase">
+            {status === 'live' ? `Live Link: ${watch.releaseYear}` : status === 'connecting' ? 'Tuning Frequency...' : 'Channel Closed'}
+          </p>
+        </div>
+        <button onClick={() => { stopLink(); onClose(); }} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      {isVisionOn && (
+        <div className="absolute top-24 right-4 z-10 w-24 aspect-[9/16] rounded-xl overflow-hidden border border-purple-500/50 shadow-lg shadow-purple-500/20">
+          <video ref={visionVideoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+          <div className="absolute bottom-1 left-1 right-1 glass px-1 py-0.5 rounded text-[8px] mono text-purple-300 font-bold uppercase text-center">
+            Uplink {framesSent}f{framesDropped > 0 && <span className="text-amber-400"> · {framesDropped} lost</span>}
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-3">
+        {transcript.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-48 text-center space-y-3">
+            <i className="fas fa-tower-broadcast text-3xl text-purple-500/40"></i>
+            <p className="text-gray-500 mono text-xs uppercase tracking-widest max-w-[240px] leading-relaxed">
+              {status === 'live' ? 'Speak to begin the conversation' : `Open a channel to someone living in ${watch.releaseYear}`}
+            </p>
+          </div>
+        )}
+        {transcript.map((line, idx) => (
+          <div key={idx} className={`flex ${line.isUser ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] px-4 py-3 rounded-2xl text-sm leading-relaxed ${
+              line.isUser ? 'bg-blue-600/30 border border-blue-500/30 text-white' : 'glass border border-purple-500/30 text-gray-200 italic'
+            }`}>
+              <p className="text-[8px] mono font-bold uppercase tracking-widest mb-1 opacity-60">{line.isUser ? 'You' : watch.releaseYear}</p>
+              {line.text}
+            </div>
+          </div>
+        ))}
+        <div ref={transcriptEndRef}></div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mb-4 p-4 border border-red-500/30 bg-red-500/10 rounded-xl text-red-400 text-xs text-center">
+          {error}
+        </div>
+      )}
+
+      <div className="p-6 border-t border-white/10 flex flex-col items-center gap-3 pb-safe">
+        {status === 'live' ? (
+          <div className="flex items-center gap-6">
+            <button
+              onClick={toggleVision}
+              className={`w-12 h-12 rounded-full flex items-center justify-center active:scale-95 transition-all ${isVisionOn ? 'bg-purple-600 text-white shadow-lg shadow-purple-500/30' : 'glass text-white'}`}
+              title="Share Camera View"
+            >
+              <i className={`fas ${isVisionOn ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+            </button>
+            <button onClick={endLink} className="w-20 h-20 rounded-full bg-red-500 text-white flex items-center justify-center shadow-lg shadow-red-500/30 active:scale-95 transition-transform">
+              <i className={`fas fa-phone-slash text-xl ${isSpeaking ? 'animate-pulse' : ''}`}></i>
+            </button>
+            <div className="w-12 h-12"></div>
+          </div>
+        ) : (
+          <button
+            onClick={startLink}
+            disabled={status === 'connecting'}
+            className="w-20 h-20 rounded-full bg-purple-600 text-white flex items-center justify-center shadow-lg shadow-purple-500/30 active:scale-95 transition-transform"
+          >
+            <i className={`fas ${status === 'connecting' ? 'fa-spinner animate-spin' : 'fa-microphone'} text-xl`}></i>
+          </button>
+        )}
+        <p className="text-[10px] mono text-gray-500 uppercase tracking-widest">
+          {status === 'live' ? (isSpeaking ? 'Incoming Transmission' : 'Listening...') : 'Tap to Connect'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TemporalGuide;
@@ -0,0 +1,102 @@
+
+import React, { useState } from 'react';
+import { WatchInfo } from '../types';
+import { getMontageYears, createDecadeMontage, MontageFrame } from '../services/montageService';
+import { shareBlob } from '../services/imageService';
+import { TemporalError } from '../services/errors';
+
+interface TimelineScrubberProps {
+  watch: WatchInfo;
+  cachedYears: string[];
+  onSelectYear: (year: string) => void;
+  // Renders every year in order and reports how many are done; the caller holds the render lock.
+  onRenderMontage: (years: string[], onProgress: (done: number) => void) => Promise<MontageFrame[]>;
+  disabled: boolean;
+}
+
+type MontageStatus = { phase: 'rendering'; done: number; total: number } | { phase: 'recording' } | null;
+
+const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ watch, cachedYears, onSelectYear, onRenderMontage, disabled }) => {
+  const startYear = Number(watch.releaseYear);
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(startYear);
+  const [montage, setMontage] = useState<MontageStatus>(null);
+  const [montageError, setMontageError] = useState<string | null>(null);
+
+  if (!Number.isFinite(startYear) || startYear >= currentYear) return null;
+
+  const isBusy = disabled || montage !== null;
+  const decadeTicks = getMontageYears(watch.releaseYear, currentYear);
+  const percentOf = (y: number) => ((y - startYear) / (currentYear - startYear)) * 100;
+
+  const commit = () => {
+    if (!isBusy) onSelectYear(String(year));
+  };
+
+  const handleMontage = async () => {
+    if (isBusy) return;
+    setMontageError(null);
+    const years = getMontageYears(watch.releaseYear, currentYear);
+    try {
+      const frames = await onRenderMontage(years, done => setMontage({ phase: 'rendering', done, total: years.length }));
+      setMontage({ phase: 'recording' });
+      const clip = await createDecadeMontage(frames);
+      await shareBlob(
+        clip,
+        `chrono-montage-${watch.releaseYear}-${currentYear}.webm`,
+        `My ${watch.modelName} worn through ${years.length} eras, ${watch.releaseYear} to today. #chronoportalpowerbyGemini`
+      );
+    } catch (err) {
+      console.error('Montage export failed:', err);
+      setMontageError(err instanceof TemporalError ? err.userMessage : err instanceof Error ? err.message : "Montage export failed.");
+    } finally {
+      setMontage(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] flex items-center justify-between">
+        <span><i className="fas fa-timeline mr-2 text-cyan-400"></i> Timeline</span>
+        <span className="mono text-cyan-400 text-sm">{year}</span>
+      </h3>
+
+      <div className="relative pt-2 pb-6">
+        <input
+          type="range"
+          min={startYear}
+          max={currentYear}
+          step={1}
+          value={year}
+          disabled={isBusy}
+          onChange={(e) => setYear(Number(e.target.value))}
+          onPointerUp={commit}
+          onKeyUp={(e) => (e.key.startsWith('Arrow') || e.key === 'Home' || e.key === 'End') && commit()}
+          className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-400 disabled:opacity-40"
+        />
+        {decadeTicks.map(tick => (
+          <div key={tick} className="absolute top-6 -translate-x-1/2 flex flex-col items-center gap-1" style={{ left: `${percentOf(Number(tick))}%` }}>
+            <span className={`w-1.5 h-1.5 rounded-full ${cachedYears.includes(tick) ? 'bg-cyan-400' : 'bg-white/20'}`}></span>
+            <span className="text-[8px] mono text-gray-600">{tick === String(currentYear) ? 'Now' : `'${tick.slice(2)}`}</span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleMontage}
+        disabled={isBusy}
+        className="w-full py-3 glass border border-cyan-500/30 text-cyan-300 text-xs font-bold uppercase tracking-widest rounded-xl hover:border-cyan-400 transition-all active:scale-[0.98] flex items-center justify-center gap-2 disabled:opacity-40"
+      >
+        <i className={`fas ${montage ? 'fa-spinner animate-spin' : 'fa-film'}`}></i>
+        {montage?.phase === 'rendering'
+          ? `Rendering Era ${montage.done + 1}/${montage.total}...`
+          : montage?.phase === 'recording'
+            ? 'Recording Montage...'
+            : 'Export Decade Montage'}
+      </button>
+      {montageError && <p className="text-[10px] mono text-red-400 uppercase">{montageError}</p>}
+    </div>
+  );
+};
+
+export default TimelineScrubber;
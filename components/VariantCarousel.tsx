@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { EraVariant } from '../types';
+
+interface VariantCarouselProps {
+  variants: EraVariant[];
+  activeImage: string | null;
+  pendingCount: number;
+  onSelect: (variant: EraVariant) => void;
+  onToggleFavorite: (variant: EraVariant) => void;
+  disabled: boolean;
+}
+
+const VariantCarousel: React.FC<VariantCarouselProps> = ({ variants, activeImage, pendingCount, onSelect, onToggleFavorite, disabled }) => {
+  if (variants.length + pendingCount <= 1) return null;
+
+  // Newest takes first so a fresh batch lands at the start of the strip.
+  const ordered = [...variants].reverse();
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] flex items-center justify-between">
+        <span><i className="fas fa-layer-group mr-2 text-purple-400"></i> Temporal Takes</span>
+        <span className="mono text-gray-600">{variants.length} Captured</span>
+      </h3>
+      <div className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2 -mx-6 px-6">
+        {Array.from({ length: pendingCount }).map((_, idx) => (
+          <div key={`pending-${idx}`} className="snap-start shrink-0 w-24 aspect-[9/16] rounded-xl glass border border-white/10 flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ))}
+        {ordered.map(variant => {
+          const isActive = variant.image === activeImage;
+          return (
+            <div key={variant.id} className="snap-start shrink-0 w-24 space-y-1">
+              <div className={`relative aspect-[9/16] rounded-xl overflow-hidden border-2 transition-all ${isActive ? 'border-purple-500 shadow-lg shadow-purple-500/20' : 'border-transparent'}`}>
+                <button onClick={() => onSelect(variant)} disabled={disabled} className="w-full h-full">
+                  <img src={variant.image} className="w-full h-full object-cover" />
+                </button>
+                <button
+                  onClick={() => onToggleFavorite(variant)}
+                  disabled={disabled}
+                  className="absolute top-1 right-1 w-6 h-6 rounded-full glass flex items-center justify-center active:scale-90 transition-transform"
+                  title="Star Favorite"
+                >
+                  <i className={`${variant.isFavorite ? 'fas text-amber-400' : 'far text-white/70'} fa-star text-[10px]`}></i>
+                </button>
+              </div>
+              <p className="text-[8px] mono text-gray-500 uppercase font-bold truncate">{variant.lookLabel}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantCarousel;
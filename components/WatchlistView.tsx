@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { PriceAlert, WatchlistItem } from '../types';
+import {
+  applyMarketToWatchlist,
+  loadWatchlist,
+  removeFromWatchlist,
+  requestAlertPermission,
+  setWatchTarget
+} from '../services/watchlistService';
+import { fetchMarketAnalysis } from '../services/marketCache';
+import { formatMoney, loadDisplayCurrency } from '../services/currencyService';
+import { TemporalError } from '../services/errors';
+
+interface WatchlistViewProps {
+  // Bumped by the background check so an open list reloads what it stored.
+  version: number;
+  onAlert: (item: WatchlistItem, alert: PriceAlert) => void;
+  onClose: () => void;
+}
+
+const parseTarget = (value: string): number | null => {
+  const num = parseFloat(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+};
+
+const formatChecked = (timestamp?: number) =>
+  timestamp ? `Checked ${new Date(timestamp).toLocaleString()}` : 'Not checked yet';
+
+const WatchlistView: React.FC<WatchlistViewProps> = ({ version, onAlert, onClose }) => {
+  const [items, setItems] = useState<WatchlistItem[]>(loadWatchlist);
+  const [modelName, setModelName] = useState('');
+  const [target, setTarget] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [currency] = useState(loadDisplayCurrency);
+
+  useEffect(() => {
+    setItems(loadWatchlist());
+  }, [version]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const price = parseTarget(target);
+    if (!modelName.trim() || price === null) return;
+    setItems(setWatchTarget(modelName.trim(), price, currency));
+    setModelName('');
+    setTarget('');
+    requestAlertPermission().catch(err => console.warn("Notification permission request failed", err));
+  };
+
+  const handleRetarget = (item: WatchlistItem, value: string) => {
+    const price = parseTarget(value);
+    if (price === null || price === item.targetPrice) return;
+    setItems(setWatchTarget(item.modelName, price, item.currency));
+  };
+
+  const handleCheck = async (item: WatchlistItem) => {
+    setError(null);
+    setChecking(item.modelName);
+    try {
+      const result = await fetchMarketAnalysis(item.modelName, true);
+      const applied = applyMarketToWatchlist(item.modelName, result.market, result.fetchedAt);
+      if (applied?.alert) onAlert(applied.item, applied.alert);
+      setItems(loadWatchlist());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof TemporalError && err.kind !== 'UNKNOWN' ? err.userMessage : "Unable to connect to Market Crawler Protocol.");
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const inputClass = "bg-white/5 border border-white/10 rounded-xl px-3 py-2.5 text-xs text-white placeholder-gray-600 focus:outline-none focus:border-amber-500/50";
+
+  return (
+    <div className="absolute inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-bottom duration-300">
+      {/* Header */}
+      <div className="p-6 border-b border-white/10 flex justify-between items-center bg-black/50 backdrop-blur-md">
+        <div>
+          <h2 className="text-xl font-bold uppercase tracking-wider text-white">Watchlist</h2>
+          <p className="text-[10px] text-amber-400 mono font-bold uppercase">
+            {items.filter(item => item.reached).length}/{items.length} At Target
+          </p>
+        </div>
+        <button onClick={onClose} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center text-white active:scale-95">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {/* Add Reference */}
+        <form onSubmit={handleAdd} className="glass p-3 rounded-2xl space-y-2">
+          <input
+            value={modelName}
+            onChange={(e) => setModelName(e.target.value)}
+            placeholder="Reference to watch"
+            className={`${inputClass} w-full`}
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder={`Target price (${currency})`}
+              className={`${inputClass} flex-1 mono`}
+            />
+            <button
+              type="submit"
+              disabled={!modelName.trim() || parseTarget(target) === null}
+              className="px-4 text-[10px] mono font-bold uppercase rounded-xl bg-amber-500 text-black disabled:opacity-40"
+            >
+              <i className="fas fa-bell mr-1"></i> Watch
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="p-4 border border-red-500/30 bg-red-500/10 rounded-xl text-red-400 text-center text-xs">
+            {error}
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-48 text-center space-y-3">
+            <i className="fas fa-bell text-3xl text-white/20"></i>
+            <p className="text-gray-500 mono text-xs uppercase tracking-widest">Watch a reference to get price alerts</p>
+          </div>
+        ) : items.map(item => {
+          const isOpen = expanded === item.modelName;
+          return (
+            <div key={item.modelName} className={`glass rounded-2xl p-3 border transition-colors ${item.reached ? 'border-amber-500/40' : 'border-white/10'}`}>
+              <button onClick={() => setExpanded(isOpen ? null : item.modelName)} className="w-full flex items-center gap-3 text-left">
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-xs font-bold text-white leading-tight line-clamp-2">{item.modelName}</h4>
+                  <p className="text-[8px] mono text-gray-500 uppercase mt-1">{formatChecked(item.lastCheckedAt)}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-[10px] mono text-gray-400">Target {formatMoney(item.targetPrice, item.currency)}</p>
+                  <p className={`text-[10px] mono font-bold ${item.reached ? 'text-amber-400' : 'text-emerald-400'}`}>
+                    {item.lastRange ? `${formatMoney(item.lastRange.min, item.currency)} - ${formatMoney(item.lastRange.max, item.currency)}` : '--'}
+                  </p>
+                </div>
+              </button>
+
+              {isOpen && (
+                <div className="mt-3 pt-3 border-t border-white/5 space-y-3">
+                  <div className="flex gap-2">
+                    <input
+                      key={item.targetPrice}
+                      type="number"
+                      min="0"
+                      defaultValue={item.targetPrice}
+                      onBlur={(e) => handleRetarget(item, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className={`${inputClass} flex-1 mono`}
+                    />
+                    <button
+                      onClick={() => handleCheck(item)}
+                      disabled={checking !== null}
+                      className="px-3 text-[10px] mono font-bold uppercase rounded-xl border text-emerald-400 border-emerald-500/30 bg-emerald-500/10 disabled:opacity-40"
+                    >
+                      {checking === item.modelName ? <i className="fas fa-circle-notch animate-spin"></i> : <><i className="fas fa-rotate mr-1"></i> Check</>}
+                    </button>
+                    <button
+                      onClick={() => setItems(removeFromWatchlist(item.modelName))}
+                      className="w-10 glass rounded-xl text-white/60 hover:text-red-400"
+                      title="Stop Watching"
+                    >
+                      <i className="fas fa-trash text-xs"></i>
+                    </button>
+                  </div>
+
+                  {/* Alert History */}
+                  <div className="space-y-1">
+                    <span className="text-[8px] mono text-gray-500 uppercase font-bold tracking-widest">Alert History</span>
+                    {item.alerts.length === 0 ? (
+                      <p className="text-[10px] mono text-gray-600 uppercase">No alerts yet</p>
+                    ) : item.alerts.map(alert => (
+                      <div key={alert.id} className="flex justify-between text-[10px] mono py-1 border-b border-white/5">
+                        <span className="text-gray-400">{new Date(alert.triggeredAt).toLocaleDateString()}</span>
+                        <span className="text-amber-400 font-bold">
+                          {formatMoney(alert.rangeMin, alert.currency)} - {formatMoney(alert.rangeMax, alert.currency)}
+                          <span className="text-gray-500 font-normal"> / {formatMoney(alert.targetPrice, alert.currency)}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistView;
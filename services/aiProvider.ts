@@ -0,0 +1,71 @@
+import { WatchInfo, MarketingScenario, Persona, MarketAnalysis, VintageAd, SupplementaryShot } from "../types";
+import * as gemini from "./geminiService";
+import { connectTemporalGuide as connectGeminiGuide, LiveSessionCallbacks, TemporalGuideSession } from "./liveService";
+import { mockProvider } from "./mockService";
+import { withRetry, classifyError } from "./errors";
+
+/**
+ * Contract every AI backend must satisfy. The UI only talks to the active
+ * provider through the exports below, never to an SDK directly.
+ */
+export interface AIProvider {
+  name: string;
+  vectorizeImage: (base64Data: string) => Promise<string>;
+  identifyWatch: (
+    originalBase64: string,
+    blueprintBase64?: string,
+    onPartial?: (partial: Partial<WatchInfo>) => void,
+    dialCropBase64?: string,
+    shots?: SupplementaryShot[]
+  ) => Promise<WatchInfo>;
+  transformEra: (
+    base64Image: string,
+    watch: WatchInfo,
+    persona: Persona | null,
+    customScenario?: MarketingScenario,
+    skipWatermark?: boolean,
+    yearOverride?: string
+  ) => Promise<string>;
+  analyzeMarketValue: (modelName: string) => Promise<MarketAnalysis>;
+  generateVintageAd: (base64Image: string, watch: WatchInfo, brief: MarketingScenario) => Promise<VintageAd>;
+  connectTemporalGuide: (eraInfo: string, callbacks: LiveSessionCallbacks) => Promise<TemporalGuideSession>;
+}
+
+// Every one-shot Gemini call retries transient failures with exponential backoff.
+// Image generation is expensive, so it gets a single retry; the live session is not retried.
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  vectorizeImage: withRetry(gemini.vectorizeImage, { retries: 1, baseDelayMs: 1500, maxDelayMs: 8000 }),
+  identifyWatch: withRetry(gemini.identifyWatch),
+  transformEra: withRetry(gemini.transformEra, { retries: 1, baseDelayMs: 1500, maxDelayMs: 8000 }),
+  analyzeMarketValue: withRetry(gemini.analyzeMarketValue),
+  generateVintageAd: withRetry(gemini.generateVintageAd, { retries: 1, baseDelayMs: 1500, maxDelayMs: 8000 }),
+  connectTemporalGuide: (eraInfo, callbacks) => connectGeminiGuide(eraInfo, callbacks).catch(err => {
+    throw classifyError(err);
+  }),
+};
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Resolves the provider named by the AI_PROVIDER build variable, defaulting to Gemini.
+ */
+export const getAIProvider = (): AIProvider => {
+  const requested = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  const provider = PROVIDERS[requested];
+  if (!provider) {
+    console.warn(`Unknown AI provider "${requested}", falling back to gemini.`);
+    return geminiProvider;
+  }
+  return provider;
+};
+
+export const vectorizeImage: AIProvider['vectorizeImage'] = (...args) => getAIProvider().vectorizeImage(...args);
+export const identifyWatch: AIProvider['identifyWatch'] = (...args) => getAIProvider().identifyWatch(...args);
+export const transformEra: AIProvider['transformEra'] = (...args) => getAIProvider().transformEra(...args);
+export const analyzeMarketValue: AIProvider['analyzeMarketValue'] = (...args) => getAIProvider().analyzeMarketValue(...args);
+export const generateVintageAd: AIProvider['generateVintageAd'] = (...args) => getAIProvider().generateVintageAd(...args);
+export const connectTemporalGuide: AIProvider['connectTemporalGuide'] = (...args) => getAIProvider().connectTemporalGuide(...args);
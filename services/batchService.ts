@@ -0,0 +1,60 @@
+import { BatchItem } from "../types";
+import { identifyWatch } from "./aiProvider";
+import { classifyError } from "./errors";
+import { computeImageHash, findCachedIdentification, cacheIdentification } from "./identificationCache";
+import { readImageFile } from "./uploadService";
+import { resizeImage } from "./imageService";
+import { applySerialCheck } from "./serialDecoder";
+import { findPriorCorrection, needsConfirmation } from "./correctionService";
+
+const THUMBNAIL_EDGE = 160;
+
+/**
+ * Runs one uploaded photo through the photo-only identification pipeline,
+ * reporting each stage through `onUpdate`. Never throws; failures land on the
+ * item as a user-facing message.
+ */
+export const processBatchItem = async (item: BatchItem, onUpdate: (patch: Partial<BatchItem>) => void): Promise<void> => {
+  try {
+    onUpdate({ status: 'reading', error: undefined });
+    const base64 = item.base64 || await readImageFile(item.file);
+    const thumbnail = item.thumbnail || await resizeImage(`data:image/jpeg;base64,${base64}`, THUMBNAIL_EDGE, 0.7);
+    onUpdate({ base64, thumbnail });
+
+    const hash = await computeImageHash(base64).catch(() => null);
+    const cached = hash ? findCachedIdentification(hash, 'fast') : null;
+    if (cached) {
+      onUpdate({ status: 'done', watch: cached, fromCache: true });
+      return;
+    }
+
+    onUpdate({ status: 'identifying' });
+    let watch = await identifyWatch(base64, undefined, partial => {
+      if (partial.modelName) onUpdate({ partialModelName: partial.modelName });
+    });
+    if (watch.casebackText) watch = applySerialCheck(watch, watch.casebackText);
+    // Uncertain readings stay out of the cache until the user confirms them on opening the row.
+    if (hash && !needsConfirmation(watch, findPriorCorrection(watch.modelName))) cacheIdentification(hash, 'fast', watch);
+    onUpdate({ status: 'done', watch, fromCache: false });
+  } catch (err) {
+    console.error(`Batch identification failed for ${item.file.name}`, err);
+    onUpdate({ status: 'error', error: classifyError(err).userMessage });
+  }
+};
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Flattens finished catalog rows into CSV: file, model, year, and forensic counts.
+ */
+export const buildCatalogCsv = (items: BatchItem[]): string => {
+  const header = ['File', 'Model', 'Year', 'Confirmed', 'Variation', 'Discrepancy'];
+  const rows = items
+    .filter(item => item.watch)
+    .map(item => {
+      const points = item.watch!.forensicVerification;
+      const count = (status: string) => String(points.filter(p => p.status === status).length);
+      return [item.file.name, item.watch!.modelName, item.watch!.releaseYear, count('Confirmed'), count('Variation'), count('Discrepancy')];
+    });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
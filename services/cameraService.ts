@@ -0,0 +1,88 @@
+import { ShotKind } from '../types';
+
+const PREFERRED_CAMERA_KEY = 'chronoportal.cameraDevice';
+
+// --- SHOT SEQUENCE PRESETS ---
+// Order of the guided forensic capture. The dial shot doubles as the primary photo.
+export const SHOT_SEQUENCE: { id: ShotKind; label: string; hint: string; icon: string; optional: boolean }[] = [
+  { id: 'dial', label: 'Dial', hint: 'Frame the dial face-on', icon: 'fa-clock', optional: false },
+  { id: 'caseback', label: 'Caseback', hint: 'Flip the watch, show the serial', icon: 'fa-circle-dot', optional: false },
+  { id: 'side', label: 'Side', hint: 'Show the crown side in profile', icon: 'fa-grip-lines-vertical', optional: false },
+  { id: 'movement', label: 'Movement', hint: 'Open caseback: frame the caliber', icon: 'fa-gears', optional: true },
+];
+
+export const findShot = (id: ShotKind) => SHOT_SEQUENCE.find(shot => shot.id === id)!;
+
+export interface CameraLens {
+  deviceId: string;
+  label: string;
+}
+
+export interface RangeCapability {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Track capabilities beyond what lib.dom types today (zoom, torch, manual focus).
+export interface ExtendedCapabilities {
+  zoom?: RangeCapability;
+  torch?: boolean;
+  focusDistance?: RangeCapability;
+  focusMode?: string[];
+}
+
+export const loadPreferredCamera = (): string | null => localStorage.getItem(PREFERRED_CAMERA_KEY);
+
+export const savePreferredCamera = (deviceId: string) => localStorage.setItem(PREFERRED_CAMERA_KEY, deviceId);
+
+/**
+ * Shortens platform camera labels ("Back Ultra Wide Camera", "camera2 2,
+ * facing back") into something that fits a lens chip.
+ */
+export const describeLens = (label: string, index: number): string => {
+  const text = label.toLowerCase();
+  if (/ultra ?wide|0\.5/.test(text)) return 'Ultra Wide';
+  if (/tele|zoom|[23]x/.test(text)) return 'Telephoto';
+  if (/macro/.test(text)) return 'Macro';
+  if (/front|user|facetime/.test(text)) return 'Front';
+  if (/back|rear|environment|wide/.test(text)) return 'Wide';
+  return label || `Lens ${index + 1}`;
+};
+
+/**
+ * Lists video inputs. Labels are only populated once camera permission has
+ * been granted, so call this after the first stream opens.
+ */
+export const listCameraLenses = async (): Promise<CameraLens[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const seen: Record<string, number> = {};
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, idx) => {
+      const label = describeLens(device.label, idx);
+      seen[label] = (seen[label] || 0) + 1;
+      // Android often reports every rear lens generically; number the repeats.
+      return { deviceId: device.deviceId, label: seen[label] > 1 ? `${label} ${seen[label]}` : label };
+    });
+};
+
+/**
+ * Opens a specific lens when one was chosen, otherwise lets the browser pick
+ * a rear camera.
+ */
+export const openCameraStream = (deviceId: string | null): Promise<MediaStream> => {
+  return navigator.mediaDevices.getUserMedia({
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+      width: { ideal: 1920 },
+      height: { ideal: 1080 }
+    },
+    audio: false
+  });
+};
+
+export const getTrackCapabilities = (track: MediaStreamTrack | undefined): ExtendedCapabilities => {
+  if (!track?.getCapabilities) return {};
+  return track.getCapabilities() as ExtendedCapabilities;
+};
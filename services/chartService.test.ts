@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { applyWindow, computeDomain, formatChartYear, nearestPoint, parseChartYear, toChartPoints } from './chartService';
+
+const points = (...pairs: [number, number][]) => pairs.map(([x, value]) => ({ x, value }));
+
+describe('computeDomain', () => {
+  it('returns null with nothing to plot', () => {
+    expect(computeDomain([])).toBeNull();
+  });
+
+  it('pads both axes around a single point', () => {
+    const domain = computeDomain(points([2023, 5000]))!;
+    expect(domain.xMin).toBeLessThan(2023);
+    expect(domain.xMax).toBeGreaterThan(2023);
+    expect(domain.yMin).toBeLessThan(5000);
+    expect(domain.yMax).toBeGreaterThan(5000);
+    expect(domain.xTicks).toContain(2023);
+  });
+
+  it('gives a flat series a non-zero value range', () => {
+    const domain = computeDomain(points([2020, 1200], [2022, 1200], [2024, 1200]))!;
+    expect(domain.yMax - domain.yMin).toBeGreaterThan(0);
+    expect(domain.yMin).toBeLessThan(1200);
+    expect(domain.yMax).toBeGreaterThan(1200);
+  });
+
+  it('keeps an all-zero series on a non-negative axis', () => {
+    const domain = computeDomain(points([2020, 0], [2024, 0]))!;
+    expect(domain.yMin).toBe(0);
+    expect(domain.yMax).toBeGreaterThan(0);
+    expect(domain.yTicks.every(tick => tick >= 0)).toBe(true);
+  });
+
+  it('includes extra values such as the current price band', () => {
+    const domain = computeDomain(points([2020, 1000], [2024, 1200]), [900, 1800])!;
+    expect(domain.yMin).toBeLessThanOrEqual(900);
+    expect(domain.yMax).toBeGreaterThanOrEqual(1800);
+  });
+
+  it('builds evenly spaced ticks without float drift', () => {
+    const domain = computeDomain(points([2020, 0.1], [2024, 0.7]))!;
+    const steps = domain.yTicks.slice(1).map((tick, i) => tick - domain.yTicks[i]);
+    steps.forEach(step => expect(step).toBeCloseTo(steps[0]));
+    expect(domain.yTicks[domain.yTicks.length - 1]).toBeCloseTo(domain.yMax);
+  });
+
+  it('limits the number of year labels on long ranges', () => {
+    const domain = computeDomain(points([1990, 1], [2024, 2]))!;
+    expect(domain.xTicks.length).toBeLessThanOrEqual(6);
+  });
+});
+
+describe('applyWindow', () => {
+  const history = points([2012, 1], [2018, 2], [2021, 3], [2023, 4], [2024, 5]);
+
+  it('keeps points inside the window', () => {
+    expect(applyWindow(history, '3y', 2024).map(p => p.x)).toEqual([2021, 2023, 2024]);
+    expect(applyWindow(history, '10y', 2024).map(p => p.x)).toEqual([2018, 2021, 2023, 2024]);
+  });
+
+  it('widens a window with too few points to the last two', () => {
+    expect(applyWindow(points([2015, 1], [2024, 2]), '1y', 2024).map(p => p.x)).toEqual([2015, 2024]);
+  });
+
+  it('leaves a single point alone', () => {
+    expect(applyWindow(points([2024, 2]), '1y', 2024)).toHaveLength(1);
+  });
+});
+
+describe('parseChartYear / formatChartYear', () => {
+  it('reads plain years and year-months', () => {
+    expect(parseChartYear('2021')).toBe(2021);
+    expect(parseChartYear('2021-07')).toBeCloseTo(2021.5);
+    expect(parseChartYear('Q3 2019')).toBe(2019);
+    expect(parseChartYear('n/a')).toBeNull();
+  });
+
+  it('round-trips through formatting', () => {
+    expect(formatChartYear(parseChartYear('2021')!)).toBe('2021');
+    expect(formatChartYear(parseChartYear('2021-07')!)).toBe('2021-07');
+    expect(formatChartYear(parseChartYear('2021-12')!)).toBe('2021-12');
+  });
+
+  it('drops unreadable years and sorts points', () => {
+    const parsed = toChartPoints([
+      { year: '2023', averagePrice: 3 },
+      { year: 'unknown', averagePrice: 2 },
+      { year: '2021', averagePrice: 1 },
+    ]);
+    expect(parsed.map(p => p.x)).toEqual([2021, 2023]);
+  });
+});
+
+describe('nearestPoint', () => {
+  it('snaps to the closest year', () => {
+    expect(nearestPoint(points([2018, 1], [2021, 2]), 2020)?.x).toBe(2021);
+    expect(nearestPoint([], 2020)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+// --- CHART PRESETS ---
+export type ChartWindow = '1y' | '3y' | '10y';
+
+export const CHART_WINDOWS: { id: ChartWindow; years: number }[] = [
+  { id: '1y', years: 1 },
+  { id: '3y', years: 3 },
+  { id: '10y', years: 10 },
+];
+
+// Padding applied around a flat series so it sits mid-chart instead of on an edge.
+const FLAT_PADDING = 0.1;
+const Y_TICK_TARGET = 4;
+const MAX_X_LABELS = 6;
+
+export interface ChartPoint {
+  x: number;
+  value: number;
+}
+
+export interface ChartDomain {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  yTicks: number[];
+  xTicks: number[];
+}
+
+/**
+ * Reads a price-history year such as "2021" or "2021-06" as a fractional
+ * year. Returns null for labels that carry no year.
+ */
+export const parseChartYear = (year: string): number | null => {
+  const match = year.match(/(\d{4})(?:-(\d{1,2}))?/);
+  if (!match) return null;
+  const month = match[2] ? Math.min(Math.max(parseInt(match[2], 10), 1), 12) : 1;
+  return parseInt(match[1], 10) + (month - 1) / 12;
+};
+
+export const toChartPoints = (history: { year: string; averagePrice: number }[]): ChartPoint[] =>
+  history
+    .map(point => ({ x: parseChartYear(point.year), value: point.averagePrice }))
+    .filter((point): point is ChartPoint => point.x !== null && Number.isFinite(point.value))
+    .sort((a, b) => a.x - b.x);
+
+/**
+ * Keeps the points inside the window ending at `latest`. A window that would
+ * hold fewer than two points is widened to the last two so there is still a
+ * line to draw.
+ */
+export const applyWindow = (points: ChartPoint[], window: ChartWindow, latest: number): ChartPoint[] => {
+  const years = CHART_WINDOWS.find(w => w.id === window)?.years ?? Infinity;
+  const inside = points.filter(point => point.x >= latest - years);
+  return inside.length >= 2 ? inside : points.slice(-2);
+};
+
+// Rounds a raw tick step to 1, 2 or 5 times a power of ten.
+const niceStep = (rawStep: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const fraction = rawStep / magnitude;
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+/**
+ * Fits both axes around every visible point and any extra values (such as
+ * the current price band). Flat or single-value data gets padding so the
+ * scale never divides by zero.
+ */
+export const computeDomain = (points: ChartPoint[], extraValues: number[] = []): ChartDomain | null => {
+  if (points.length === 0) return null;
+
+  const xs = points.map(p => p.x);
+  let xMin = Math.min(...xs);
+  let xMax = Math.max(...xs);
+  if (xMin === xMax) {
+    xMin -= 1;
+    xMax += 1;
+  }
+
+  const values = [...points.map(p => p.value), ...extraValues];
+  let low = Math.min(...values);
+  let high = Math.max(...values);
+  const nonNegative = low >= 0;
+  if (low === high) {
+    const pad = Math.abs(low) * FLAT_PADDING || 1;
+    low -= pad;
+    high += pad;
+  }
+  // Prices never go below zero, so padding must not push the axis there.
+  if (nonNegative) low = Math.max(low, 0);
+  const step = niceStep((high - low) / Y_TICK_TARGET);
+  const yMin = Math.floor(low / step) * step;
+  const yMax = Math.ceil(high / step) * step;
+  const yTicks: number[] = [];
+  // Built from the index rather than by repeated addition to avoid float drift.
+  for (let i = 0; i <= Math.round((yMax - yMin) / step); i++) yTicks.push(yMin + i * step);
+
+  const firstYear = Math.ceil(xMin);
+  const lastYear = Math.floor(xMax);
+  const yearStep = Math.max(1, Math.ceil((lastYear - firstYear + 1) / MAX_X_LABELS));
+  const xTicks: number[] = [];
+  for (let year = firstYear; year <= lastYear; year += yearStep) xTicks.push(year);
+
+  return { xMin, xMax, yMin, yMax, yTicks, xTicks };
+};
+
+/**
+ * The point whose x is closest to `x`, or null for an empty series.
+ */
+export const nearestPoint = (points: ChartPoint[], x: number): ChartPoint | null =>
+  points.reduce<ChartPoint | null>((best, point) =>
+    !best || Math.abs(point.x - x) < Math.abs(best.x - x) ? point : best, null);
+
+export const formatChartYear = (x: number): string => {
+  const year = Math.floor(x);
+  const month = Math.round((x - year) * 12);
+  return month ? `${year}-${String(month + 1).padStart(2, '0')}` : String(year);
+};
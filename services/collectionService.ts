@@ -0,0 +1,170 @@
+import { CollectionEntry, MarketAnalysis, ServiceRecord, WatchCondition, WatchInfo } from "../types";
+import { COLLECTION_STORE, createHistoryId, runTransaction } from "./historyService";
+import { LEGACY_CURRENCY, convertAmount, loadDisplayCurrency } from "./currencyService";
+
+// --- COLLECTION PRESETS ---
+export const WATCH_CONDITIONS: WatchCondition[] = ['Unworn', 'Excellent', 'Very Good', 'Good', 'Fair', 'Project'];
+
+export type CollectionSort = 'recent' | 'name' | 'year' | 'paid' | 'value';
+
+export const COLLECTION_SORTS: { id: CollectionSort; label: string }[] = [
+  { id: 'recent', label: 'Recently Updated' },
+  { id: 'name', label: 'Name' },
+  { id: 'year', label: 'Release Year' },
+  { id: 'paid', label: 'Price Paid' },
+  { id: 'value', label: 'Est. Value' },
+];
+
+export interface CollectionTotals {
+  // Every amount below is in this currency.
+  currency: string;
+  count: number;
+  costBasis: number;
+  valueMin: number;
+  valueMax: number;
+  // Entries with a market analysis; the value range only covers these.
+  valued: number;
+}
+
+export const createCollectionEntry = (watch: WatchInfo, thumbnail?: string): CollectionEntry => {
+  const now = Date.now();
+  return {
+    modelName: watch.modelName,
+    releaseYear: watch.releaseYear,
+    thumbnail,
+    purchaseCurrency: loadDisplayCurrency(),
+    condition: 'Very Good',
+    serviceHistory: [],
+    notes: '',
+    scanIds: [],
+    addedAt: now,
+    updatedAt: now,
+  };
+};
+
+export const createServiceRecord = (): ServiceRecord => ({
+  id: createHistoryId(),
+  date: new Date().toISOString().slice(0, 10),
+  provider: '',
+  work: '',
+});
+
+/**
+ * Returns every owned watch, most recently updated first.
+ */
+export const getCollection = async (): Promise<CollectionEntry[]> => {
+  const entries = await runTransaction<CollectionEntry[]>('readonly', store => store.getAll(), COLLECTION_STORE);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getCollectionEntry = async (modelName: string): Promise<CollectionEntry | null> => {
+  const entry = await runTransaction<CollectionEntry | undefined>('readonly', store => store.get(modelName), COLLECTION_STORE);
+  return entry || null;
+};
+
+export const saveCollectionEntry = async (entry: CollectionEntry): Promise<CollectionEntry> => {
+  const saved = { ...entry, updatedAt: Date.now() };
+  await runTransaction('readwrite', store => store.put(saved), COLLECTION_STORE);
+  return saved;
+};
+
+export const deleteCollectionEntry = async (modelName: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(modelName), COLLECTION_STORE);
+};
+
+/**
+ * Adds the watch to the collection, or links another scan to the existing
+ * record. A fresh thumbnail replaces the stored one.
+ */
+export const addToCollection = async (watch: WatchInfo, scanId?: string, thumbnail?: string): Promise<CollectionEntry> => {
+  const entry = (await getCollectionEntry(watch.modelName)) || createCollectionEntry(watch);
+  return saveCollectionEntry({
+    ...entry,
+    thumbnail: thumbnail || entry.thumbnail,
+    scanIds: scanId && !entry.scanIds.includes(scanId) ? [scanId, ...entry.scanIds] : entry.scanIds,
+  });
+};
+
+/**
+ * Links a new scan to an owned watch. Scans of watches not in the
+ * collection are left alone.
+ */
+export const linkScanIfOwned = async (modelName: string, scanId: string): Promise<void> => {
+  const entry = await getCollectionEntry(modelName);
+  if (!entry || entry.scanIds.includes(scanId)) return;
+  await saveCollectionEntry({ ...entry, scanIds: [scanId, ...entry.scanIds] });
+};
+
+/**
+ * Stores the latest market analysis on an owned watch; other models are ignored.
+ * A price refresh is not an edit, so `updatedAt` is left alone.
+ */
+export const recordMarketAnalysis = async (modelName: string, market: MarketAnalysis): Promise<void> => {
+  const entry = await getCollectionEntry(modelName);
+  if (!entry) return;
+  const updated: CollectionEntry = { ...entry, market, marketUpdatedAt: Date.now() };
+  await runTransaction('readwrite', store => store.put(updated), COLLECTION_STORE);
+};
+
+/**
+ * The market's price range converted to `currency`, or null when the watch
+ * is unpriced or quoted in a currency missing from the rate table.
+ */
+export const marketRange = (entry: CollectionEntry, currency: string = loadDisplayCurrency()): { min: number; max: number } | null => {
+  if (!entry.market) return null;
+  const min = convertAmount(entry.market.currentMinPrice, entry.market.currency, currency);
+  const max = convertAmount(entry.market.currentMaxPrice, entry.market.currency, currency);
+  return min !== null && max !== null ? { min, max } : null;
+};
+
+export const estimateValue = (entry: CollectionEntry, currency: string = loadDisplayCurrency()): number | null => {
+  const range = marketRange(entry, currency);
+  return range ? (range.min + range.max) / 2 : null;
+};
+
+export const purchaseCost = (entry: CollectionEntry, currency: string = loadDisplayCurrency()): number | null =>
+  entry.purchasePrice !== undefined
+    ? convertAmount(entry.purchasePrice, entry.purchaseCurrency || LEGACY_CURRENCY, currency)
+    : null;
+
+export const summarizeCollection = (entries: CollectionEntry[], currency: string = loadDisplayCurrency()): CollectionTotals => {
+  const totals: CollectionTotals = { currency, count: entries.length, costBasis: 0, valueMin: 0, valueMax: 0, valued: 0 };
+  for (const entry of entries) {
+    totals.costBasis += purchaseCost(entry, currency) || 0;
+    const range = marketRange(entry, currency);
+    if (range) {
+      totals.valueMin += range.min;
+      totals.valueMax += range.max;
+      totals.valued++;
+    }
+  }
+  return totals;
+};
+
+export const filterCollection = (entries: CollectionEntry[], query: string, condition: WatchCondition | null): CollectionEntry[] => {
+  const needle = query.trim().toLowerCase();
+  return entries.filter(entry =>
+    (!condition || entry.condition === condition) &&
+    (!needle || entry.modelName.toLowerCase().includes(needle) || entry.notes.toLowerCase().includes(needle))
+  );
+};
+
+// Entries missing the sort field go last rather than counting as zero.
+export const sortCollection = (entries: CollectionEntry[], sort: CollectionSort): CollectionEntry[] => {
+  const byNumber = (value: (entry: CollectionEntry) => number | null | undefined) => (a: CollectionEntry, b: CollectionEntry) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va == null) return vb == null ? 0 : 1;
+    if (vb == null) return -1;
+    return vb - va;
+  };
+  const currency = loadDisplayCurrency();
+  const sorted = [...entries];
+  switch (sort) {
+    case 'name': return sorted.sort((a, b) => a.modelName.localeCompare(b.modelName));
+    case 'year': return sorted.sort((a, b) => a.releaseYear.localeCompare(b.releaseYear));
+    case 'paid': return sorted.sort(byNumber(entry => purchaseCost(entry, currency)));
+    case 'value': return sorted.sort(byNumber(entry => estimateValue(entry, currency)));
+    default: return sorted.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CORRECTION_FEATURE, applyCandidate } from './correctionService';
+import { WatchInfo } from '../types';
+
+const REJECTED: WatchInfo = {
+  modelName: 'Omega Seamaster 300',
+  releaseYear: '1957',
+  eraContext: 'Post-war optimism and the birth of recreational diving.',
+  clothingDescription: 'wool swim trunks',
+  environmentDescription: 'a Riviera harbour',
+  historicalFunFact: 'Issued to the Royal Navy.',
+  marketingScenarios: [{ id: 'dive', title: 'Dive Club', description: 'Harbour', environmentPrompt: 'harbour', clothingPrompt: 'trunks' }],
+  forensicVerification: [{ feature: 'Dial', observation: 'Arrow hand', status: 'Confirmed', details: 'Correct' }],
+  associatedMovies: [{ movieTitle: 'Thunderball', characterName: 'Bond', context: 'Underwater' }],
+  sources: [{ title: 'Omega archive', url: 'https://example.com/omega' }],
+  casebackText: '14755',
+  confidence: 0.6,
+  alternates: [{ modelName: 'Seiko 6105-8110', releaseYear: '1970', confidence: 0.3, reason: 'Cushion case' }],
+};
+
+describe('applyCandidate', () => {
+  const chosen = REJECTED.alternates![0];
+  const watch = applyCandidate(REJECTED, chosen);
+
+  it('carries no dossier text from the rejected reference', () => {
+    const dossier = JSON.stringify({
+      eraContext: watch.eraContext,
+      clothingDescription: watch.clothingDescription,
+      environmentDescription: watch.environmentDescription,
+      historicalFunFact: watch.historicalFunFact,
+      marketingScenarios: watch.marketingScenarios,
+      associatedMovies: watch.associatedMovies,
+      sources: watch.sources,
+    });
+    expect(dossier).not.toMatch(/Omega|1957|Riviera|Royal Navy|Dive Club|Thunderball|wool/);
+    expect(watch.eraContext).toContain('1970');
+    expect(watch.historicalFunFact).toContain('Seiko 6105-8110');
+    expect(watch.marketingScenarios).toEqual([]);
+    expect(watch.associatedMovies).toEqual([]);
+  });
+
+  it('keeps what was read from the photos and records the override', () => {
+    expect(watch).toMatchObject({ modelName: 'Seiko 6105-8110', releaseYear: '1970', casebackText: '14755' });
+    expect(watch.forensicVerification.map(point => point.feature)).toEqual([CORRECTION_FEATURE, 'Dial']);
+    expect(watch.alternates?.map(alt => alt.modelName)).toEqual(['Omega Seamaster 300']);
+  });
+
+  it('leaves a confirmed top pick untouched', () => {
+    expect(applyCandidate(REJECTED, { ...chosen, modelName: 'omega seamaster 300' })).toBe(REJECTED);
+  });
+});
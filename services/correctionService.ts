@@ -0,0 +1,114 @@
+import { IdentificationCandidate, WatchInfo } from "../types";
+import { eraDefaults } from "./validation";
+
+// --- CORRECTION PRESETS ---
+const CHOICES_KEY = 'chronoportal.identificationChoices';
+const MAX_CHOICES = 100;
+// At or above this, a reading with no prior correction goes straight to synthesis.
+export const AUTO_CONFIRM_CONFIDENCE = 0.9;
+export const CORRECTION_FEATURE = 'Owner Correction';
+
+// One confirmation from the disambiguation step. `predicted` is the model's top pick.
+export interface IdentificationChoice {
+  predicted: string;
+  chosen: string;
+  chosenYear: string;
+  timestamp: number;
+}
+
+const sameModel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const loadIdentificationChoices = (): IdentificationChoice[] => {
+  try {
+    const raw = localStorage.getItem(CHOICES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const logIdentificationChoice = (predicted: string, chosen: IdentificationCandidate) => {
+  const entry: IdentificationChoice = {
+    predicted,
+    chosen: chosen.modelName,
+    chosenYear: chosen.releaseYear,
+    timestamp: Date.now(),
+  };
+  try {
+    localStorage.setItem(CHOICES_KEY, JSON.stringify([entry, ...loadIdentificationChoices()].slice(0, MAX_CHOICES)));
+  } catch (err) {
+    console.warn("Identification choice log write failed", err);
+  }
+};
+
+/**
+ * Returns the most recent time the user overrode this prediction, if the
+ * latest choice for it was an override rather than a confirmation.
+ */
+export const findPriorCorrection = (predicted: string): IdentificationChoice | null => {
+  const latest = loadIdentificationChoices().find(choice => sameModel(choice.predicted, predicted));
+  return latest && !sameModel(latest.chosen, latest.predicted) ? latest : null;
+};
+
+export const needsConfirmation = (watch: WatchInfo, priorCorrection: IdentificationChoice | null): boolean => {
+  if (priorCorrection) return true;
+  // Identifications from before scoring existed carry no confidence; trust them as before.
+  return watch.confidence !== undefined && watch.confidence < AUTO_CONFIRM_CONFIDENCE;
+};
+
+/**
+ * Lists the picker's options: the top pick, the model's alternates, and a
+ * previous correction when the model didn't suggest it this time.
+ */
+export const listCandidates = (watch: WatchInfo, priorCorrection: IdentificationChoice | null): IdentificationCandidate[] => {
+  const candidates: IdentificationCandidate[] = [
+    { modelName: watch.modelName, releaseYear: watch.releaseYear, confidence: watch.confidence ?? 0, reason: 'Top match from the forensic audit.' },
+    ...(watch.alternates || []),
+  ];
+  if (priorCorrection && !candidates.some(c => sameModel(c.modelName, priorCorrection.chosen))) {
+    candidates.push({
+      modelName: priorCorrection.chosen,
+      releaseYear: priorCorrection.chosenYear,
+      confidence: 0,
+      reason: 'Your earlier correction for this reading.',
+    });
+  }
+  return candidates;
+};
+
+/**
+ * Re-points the dossier at the chosen reference. The era text, scenarios,
+ * films and sources were written for the rejected pick, so they are replaced
+ * with year-based defaults; the photo-level forensic points stay. The
+ * original top pick moves into the alternates and the override is recorded
+ * as a forensic point.
+ */
+export const applyCandidate = (watch: WatchInfo, candidate: IdentificationCandidate): WatchInfo => {
+  if (sameModel(candidate.modelName, watch.modelName)) return watch;
+  const original: IdentificationCandidate = {
+    modelName: watch.modelName,
+    releaseYear: watch.releaseYear,
+    confidence: watch.confidence ?? 0,
+    reason: 'Original top match, overridden by the owner.',
+  };
+  return {
+    ...watch,
+    ...eraDefaults(candidate.modelName, candidate.releaseYear),
+    marketingScenarios: [],
+    associatedMovies: [],
+    sources: [],
+    modelName: candidate.modelName,
+    releaseYear: candidate.releaseYear,
+    confidence: candidate.confidence,
+    alternates: [original, ...(watch.alternates || []).filter(alt => !sameModel(alt.modelName, candidate.modelName))],
+    forensicVerification: [
+      {
+        feature: CORRECTION_FEATURE,
+        observation: `Confirmed as ${candidate.modelName} rather than ${watch.modelName}`,
+        status: 'Variation',
+        details: candidate.reason,
+      },
+      ...watch.forensicVerification.filter(point => point.feature !== CORRECTION_FEATURE),
+    ],
+  };
+};
@@ -0,0 +1,98 @@
+// --- CURRENCY PRESETS ---
+const DISPLAY_CURRENCY_KEY = 'chronoportal.displayCurrency';
+export const BASE_CURRENCY = 'USD';
+// Amounts recorded before currencies were tracked were entered in dollars.
+export const LEGACY_CURRENCY = 'USD';
+
+/**
+ * Bundled reference rates in units per US dollar. They are approximate and
+ * only meant to let mixed-currency totals add up; no live service is used.
+ */
+export const EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CHF: 0.88,
+  JPY: 150,
+  CNY: 7.2,
+  HKD: 7.8,
+  SGD: 1.35,
+  AUD: 1.52,
+  CAD: 1.37,
+};
+
+export const DISPLAY_CURRENCIES = Object.keys(EXCHANGE_RATES);
+
+// ISO 4217 "no currency": formats as a bare amount and converts to nothing.
+export const UNKNOWN_CURRENCY = 'XXX';
+
+// Symbols and names a price source may use instead of a code. A bare "$" is
+// left out on purpose: it could be any of several dollars.
+const CURRENCY_ALIASES: Record<string, string> = {
+  'US$': 'USD',
+  'USD$': 'USD',
+  '€': 'EUR',
+  'EURO': 'EUR',
+  'EUROS': 'EUR',
+  '£': 'GBP',
+  'GB£': 'GBP',
+  '¥': 'JPY',
+  'JP¥': 'JPY',
+  'YEN': 'JPY',
+  'CN¥': 'CNY',
+  'RMB': 'CNY',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  'SG$': 'SGD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'FR.': 'CHF',
+  'SFR': 'CHF',
+};
+
+/**
+ * Reads a currency as written by a model or price source. ISO codes pass
+ * through; known symbols are mapped; anything else becomes UNKNOWN_CURRENCY
+ * so conversions return null instead of assuming dollars.
+ */
+export const parseCurrency = (raw: string): string => {
+  const value = raw.trim().toUpperCase().replace(/\s+/g, '');
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value];
+  return /^[A-Z]{3}$/.test(value) ? value : UNKNOWN_CURRENCY;
+};
+
+export const isSupportedCurrency = (currency: string): boolean => currency in EXCHANGE_RATES;
+
+export const loadDisplayCurrency = (): string => {
+  const stored = localStorage.getItem(DISPLAY_CURRENCY_KEY);
+  return stored && isSupportedCurrency(stored) ? stored : BASE_CURRENCY;
+};
+
+export const saveDisplayCurrency = (currency: string) => localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+
+/**
+ * Converts through the dollar rate table. Returns null when either currency
+ * is missing from the table so callers can leave the amount out of a total
+ * instead of adding it at the wrong scale.
+ */
+export const convertAmount = (amount: number, from: string, to: string): number | null => {
+  if (from === to) return amount;
+  const fromRate = EXCHANGE_RATES[from];
+  const toRate = EXCHANGE_RATES[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+const formatters: Record<string, Intl.NumberFormat> = {};
+
+/**
+ * Locale-aware currency formatting, whole units only.
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+  if (!formatters[currency]) {
+    formatters[currency] = new Intl.NumberFormat(undefined, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  }
+  return formatters[currency].format(amount);
+};
@@ -0,0 +1,160 @@
+// --- DETECTOR PRESETS ---
+// Dials are searched between these fractions of the frame's short edge.
+const MIN_RADIUS_FRACTION = 0.1;
+const MAX_RADIUS_FRACTION = 0.48;
+const RADIUS_STEP = 2;
+// Centers vote on a grid this many pixels wide to absorb gradient noise.
+const CENTER_CELL = 2;
+const MAX_EDGE_PIXELS = 5000;
+const MIN_EDGE_MAGNITUDE = 30;
+// Share of the candidate's circumference that must show a radial edge.
+const MIN_SCORE = 0.5;
+const VERIFY_SAMPLES = 64;
+const MIN_RADIAL_ALIGNMENT = 0.7;
+
+// Bounding box in normalized frame coordinates (0..1).
+export interface DialDetection {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+/**
+ * Finds the most prominent circle in an RGBA frame with a gradient-directed
+ * Hough transform, then checks the winner by walking its circumference.
+ * Watch dials, bezels and cases are strongly circular, so this locates the
+ * watch without a learned model. Returns null when no circle is convincing.
+ */
+export const detectDial = (data: Uint8ClampedArray, width: number, height: number): DialDetection | null => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+
+  // Sobel gradients on interior pixels.
+  const edges: { x: number; y: number; dx: number; dy: number }[] = [];
+  let magSum = 0;
+  let magSqSum = 0;
+  const mags = new Float32Array(width * height);
+  const gxs = new Float32Array(width * height);
+  const gys = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const gx = luma[p - width + 1] + 2 * luma[p + 1] + luma[p + width + 1] - luma[p - width - 1] - 2 * luma[p - 1] - luma[p + width - 1];
+      const gy = luma[p + width - 1] + 2 * luma[p + width] + luma[p + width + 1] - luma[p - width - 1] - 2 * luma[p - width] - luma[p - width + 1];
+      const mag = Math.hypot(gx, gy);
+      mags[p] = mag;
+      gxs[p] = gx;
+      gys[p] = gy;
+      magSum += mag;
+      magSqSum += mag * mag;
+    }
+  }
+  const interior = Math.max(1, (width - 2) * (height - 2));
+  const magMean = magSum / interior;
+  const magStd = Math.sqrt(Math.max(0, magSqSum / interior - magMean * magMean));
+  const threshold = Math.max(MIN_EDGE_MAGNITUDE, magMean + magStd);
+
+  for (let p = 0; p < mags.length; p++) {
+    if (mags[p] >= threshold) {
+      edges.push({ x: p % width, y: Math.floor(p / width), dx: gxs[p] / mags[p], dy: gys[p] / mags[p] });
+    }
+  }
+  if (edges.length === 0) return null;
+  // Busy scenes get subsampled so a frame always finishes in a few milliseconds.
+  const stride = Math.max(1, Math.ceil(edges.length / MAX_EDGE_PIXELS));
+
+  const shortEdge = Math.min(width, height);
+  const minR = Math.max(4, Math.round(shortEdge * MIN_RADIUS_FRACTION));
+  const maxR = Math.round(shortEdge * MAX_RADIUS_FRACTION);
+  const radii: number[] = [];
+  for (let r = minR; r <= maxR; r += RADIUS_STEP) radii.push(r);
+
+  const gridW = Math.ceil(width / CENTER_CELL);
+  const gridH = Math.ceil(height / CENTER_CELL);
+  const votes = new Float32Array(gridW * gridH * radii.length);
+
+  for (let e = 0; e < edges.length; e += stride) {
+    const { x, y, dx, dy } = edges[e];
+    for (let ri = 0; ri < radii.length; ri++) {
+      const r = radii[ri];
+      // The center lies along the gradient, on whichever side the dial is brighter or darker.
+      for (const sign of [1, -1]) {
+        const cx = Math.round(x + sign * r * dx);
+        const cy = Math.round(y + sign * r * dy);
+        if (cx < 0 || cy < 0 || cx >= width || cy >= height) continue;
+        const cell = (Math.floor(cy / CENTER_CELL) * gridW + Math.floor(cx / CENTER_CELL)) * radii.length + ri;
+        votes[cell] += stride;
+      }
+    }
+  }
+
+  // Votes are normalized by circumference so large radii don't win by size alone.
+  let best = -1;
+  let bestVotes = 0;
+  for (let cell = 0; cell < votes.length; cell++) {
+    if (votes[cell] === 0) continue;
+    const normalized = votes[cell] / radii[cell % radii.length];
+    if (normalized > bestVotes) {
+      bestVotes = normalized;
+      best = cell;
+    }
+  }
+  if (best < 0) return null;
+
+  const r = radii[best % radii.length];
+  const gridIndex = Math.floor(best / radii.length);
+  const cx = (gridIndex % gridW) * CENTER_CELL + CENTER_CELL / 2;
+  const cy = Math.floor(gridIndex / gridW) * CENTER_CELL + CENTER_CELL / 2;
+
+  // Accept the candidate only if most of its rim is a strong, radially oriented edge.
+  let supported = 0;
+  for (let k = 0; k < VERIFY_SAMPLES; k++) {
+    const angle = (2 * Math.PI * k) / VERIFY_SAMPLES;
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+    for (let d = r - RADIUS_STEP; d <= r + RADIUS_STEP; d++) {
+      const px = Math.round(cx + d * ux);
+      const py = Math.round(cy + d * uy);
+      if (px < 1 || py < 1 || px >= width - 1 || py >= height - 1) continue;
+      const p = py * width + px;
+      if (mags[p] >= threshold && Math.abs(gxs[p] * ux + gys[p] * uy) / mags[p] >= MIN_RADIAL_ALIGNMENT) {
+        supported++;
+        break;
+      }
+    }
+  }
+  const score = supported / VERIFY_SAMPLES;
+  if (score < MIN_SCORE) return null;
+
+  const left = Math.max(0, cx - r);
+  const top = Math.max(0, cy - r);
+  const right = Math.min(width, cx + r);
+  const bottom = Math.min(height, cy + r);
+  return {
+    x: left / width,
+    y: top / height,
+    width: (right - left) / width,
+    height: (bottom - top) / height,
+    confidence: score,
+  };
+};
+
+/**
+ * Eases a new detection toward the previous one so the reticle glides
+ * instead of jittering between frames.
+ */
+export const smoothDetection = (prev: DialDetection | null, next: DialDetection, factor: number = 0.4): DialDetection => {
+  if (!prev) return next;
+  const mix = (a: number, b: number) => a + (b - a) * factor;
+  return {
+    x: mix(prev.x, next.x),
+    y: mix(prev.y, next.y),
+    width: mix(prev.width, next.width),
+    height: mix(prev.height, next.height),
+    confidence: next.confidence,
+  };
+};
@@ -0,0 +1,13 @@
+import { detectDial } from "./dialDetector";
+
+export interface DetectRequest {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Runs off the main thread so the viewfinder never stutters; nothing leaves the device.
+self.onmessage = (e: MessageEvent<DetectRequest>) => {
+  const { pixels, width, height } = e.data;
+  self.postMessage(detectDial(pixels, width, height));
+};
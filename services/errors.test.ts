@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { SafetyBlockError, classifyError } from './errors';
+
+describe('classifyError', () => {
+  it('reads SDK safety reasons as a safety block', () => {
+    expect(classifyError(new Error('Candidate was blocked due to SAFETY')).kind).toBe('SAFETY');
+    expect(classifyError(new Error('[400] PROHIBITED_CONTENT')).kind).toBe('SAFETY');
+    expect(classifyError(Object.assign(new Error('Response was blocked'), { blockReason: 'BLOCKLIST' })).kind).toBe('SAFETY');
+  });
+
+  it('keeps blocked requests from the network retryable', () => {
+    const cors = classifyError(new TypeError('Failed to fetch: blocked by CORS policy'));
+    expect(cors.kind).toBe('NETWORK');
+    expect(cors.retryable).toBe(true);
+    expect(classifyError(new Error('net::ERR_BLOCKED_BY_CLIENT')).kind).not.toBe('SAFETY');
+    expect(classifyError(new Error('Request blocked by client')).kind).not.toBe('SAFETY');
+  });
+
+  it('passes taxonomy errors through and maps quota and server failures', () => {
+    const blocked = new SafetyBlockError();
+    expect(classifyError(blocked)).toBe(blocked);
+    expect(classifyError(Object.assign(new Error('Too many requests'), { status: 429 })).kind).toBe('QUOTA');
+    expect(classifyError(Object.assign(new Error('Internal'), { status: 503 })).kind).toBe('NETWORK');
+  });
+});
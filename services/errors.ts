@@ -0,0 +1,159 @@
+// --- ERROR TAXONOMY ---
+export type TemporalErrorKind = 'QUOTA' | 'SAFETY' | 'NO_IMAGE' | 'MALFORMED_RESPONSE' | 'NETWORK' | 'UNKNOWN';
+
+/**
+ * Base class for every failure surfaced from the AI layer. `userMessage` is safe
+ * to render directly; `retryable` tells callers whether a retry can help.
+ */
+export class TemporalError extends Error {
+  readonly kind: TemporalErrorKind;
+  readonly retryable: boolean;
+  readonly userMessage: string;
+  readonly cause?: unknown;
+
+  constructor(kind: TemporalErrorKind, message: string, userMessage: string, retryable: boolean, cause?: unknown) {
+    super(message);
+    this.name = 'TemporalError';
+    this.kind = kind;
+    this.userMessage = userMessage;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+export class QuotaError extends TemporalError {
+  constructor(message = "Rate limit or quota exceeded.", cause?: unknown) {
+    super('QUOTA', message, "The temporal engine is overloaded. Please wait a moment before opening another corridor.", true, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends TemporalError {
+  constructor(message = "Request blocked by safety filters.", cause?: unknown) {
+    super('SAFETY', message, "This transmission was blocked by the safety protocol. Try a different photo or scenario.", false, cause);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class NoImageError extends TemporalError {
+  constructor(message = "No image generated by the temporal engine.", cause?: unknown) {
+    super('NO_IMAGE', message, "The temporal engine returned no image. Recalibrating usually resolves this.", true, cause);
+    this.name = 'NoImageError';
+  }
+}
+
+export class MalformedResponseError extends TemporalError {
+  constructor(message = "Model returned malformed JSON.", cause?: unknown) {
+    super('MALFORMED_RESPONSE', message, "The artifact dossier came back corrupted. Another scan attempt should recover it.", true, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class SchemaValidationError extends MalformedResponseError {
+  readonly issues: string[];
+
+  constructor(schema: string, issues: string[]) {
+    super(`${schema} failed validation: ${issues.join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export class NetworkError extends TemporalError {
+  constructor(message = "Network request failed.", cause?: unknown) {
+    super('NETWORK', message, "Temporal link lost. Check your connection and try again.", true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+// The SDK's finishReason / blockReason values that mean content was filtered.
+export const SAFETY_BLOCK_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+const SAFETY_REASON_PATTERN = new RegExp(`\\b(${SAFETY_BLOCK_REASONS.join('|')})\\b`);
+
+// Looks for a safety reason on the error itself or, upper-case as the SDK writes it, in its message.
+const isSafetyBlock = (err: unknown, message: string): boolean => {
+  const reasons = err as { finishReason?: unknown; blockReason?: unknown } | null;
+  const fields = [reasons?.finishReason, reasons?.blockReason];
+  return fields.some(reason => typeof reason === 'string' && SAFETY_BLOCK_REASONS.includes(reason)) ||
+    SAFETY_REASON_PATTERN.test(message);
+};
+
+/**
+ * Maps SDK, fetch and unknown failures onto the taxonomy above.
+ */
+export const classifyError = (err: unknown): TemporalError => {
+  if (err instanceof TemporalError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const status = (err as { status?: number } | null)?.status;
+  const lower = message.toLowerCase();
+
+  if (status === 429 || lower.includes('resource_exhausted') || lower.includes('quota') || lower.includes('rate limit')) {
+    return new QuotaError(message, err);
+  }
+  if (isSafetyBlock(err, message)) {
+    return new SafetyBlockError(message, err);
+  }
+  if (err instanceof SyntaxError) {
+    return new MalformedResponseError(message, err);
+  }
+  if (
+    (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+    (err instanceof TypeError && lower.includes('fetch')) ||
+    lower.includes('network') ||
+    (typeof status === 'number' && status >= 500)
+  ) {
+    return new NetworkError(message, err);
+  }
+  return new TemporalError('UNKNOWN', message, "Temporal paradox detected. The artifact identification was severed.", false, err);
+};
+
+/**
+ * Parses a model's JSON payload, surfacing failures as MalformedResponseError.
+ */
+export const parseModelJson = <T>(text: string | undefined): T => {
+  if (!text) throw new MalformedResponseError("Model returned an empty response.");
+  try {
+    return JSON.parse(text) as T;
+  } catch (err) {
+    throw new MalformedResponseError(`Model returned malformed JSON: ${(err as Error).message}`, err);
+  }
+};
+
+// --- RETRY POLICY ---
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelayMs: 800, maxDelayMs: 8000 };
+
+// Quota errors need a longer cool-down than transient network blips.
+const QUOTA_DELAY_MULTIPLIER = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wraps an async function so retryable TemporalErrors are retried with
+ * exponential backoff and jitter. Non-retryable errors propagate immediately.
+ */
+export const withRetry = <A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+) => async (...args: A): Promise<R> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(...args);
+    } catch (raw) {
+      const err = classifyError(raw);
+      if (!err.retryable || attempt >= policy.retries) throw err;
+
+      const multiplier = err.kind === 'QUOTA' ? QUOTA_DELAY_MULTIPLIER : 1;
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * multiplier * 2 ** attempt);
+      const jitter = Math.random() * backoff * 0.25;
+      console.warn(`Retrying after ${err.kind} (attempt ${attempt + 1}/${policy.retries})`);
+      await sleep(backoff + jitter);
+    }
+  }
+};
@@ -0,0 +1,114 @@
+// --- QUALITY GATE PRESETS ---
+// Tuned on a 160px-wide grayscale sample of the viewfinder.
+export const ANALYSIS_WIDTH = 160;
+const MIN_SHARPNESS = 60;
+const MIN_DETAIL = 0.05;
+const DETAIL_EDGE = 24;
+const BRIGHT_LUMA = 245;
+const DARK_LUMA = 25;
+const MAX_OVEREXPOSED = 0.2;
+const MAX_UNDEREXPOSED = 0.45;
+const MAX_GLARE = 0.02;
+// The reticle covers roughly the middle half of the frame.
+const CENTER_FRACTION = 0.5;
+
+export interface FrameQuality {
+  // Variance of the Laplacian over the reticle area; higher is sharper.
+  sharpness: number;
+  // Share of reticle pixels on a strong edge; low means the dial is too small or missing.
+  detail: number;
+  meanLuma: number;
+  overexposed: number;
+  underexposed: number;
+  // Share of clipped highlights inside the reticle, i.e. reflections on the crystal.
+  glare: number;
+}
+
+export type QualityIssue = 'blur' | 'distance' | 'dark' | 'bright' | 'glare';
+
+export interface QualityVerdict {
+  passes: boolean;
+  issues: QualityIssue[];
+  guidance: string;
+}
+
+const GUIDANCE: Record<QualityIssue, string> = {
+  dark: 'Add light',
+  bright: 'Too bright, step out of direct light',
+  glare: 'Reduce glare, tilt the watch',
+  distance: 'Move closer to the dial',
+  blur: 'Hold steady',
+};
+
+// Most actionable first: lighting problems make the other readings unreliable.
+const ISSUE_PRIORITY: QualityIssue[] = ['dark', 'bright', 'glare', 'distance', 'blur'];
+
+/**
+ * Measures sharpness, exposure and glare on an RGBA frame. Exposure is read
+ * over the whole frame; sharpness, detail and glare over the reticle area.
+ */
+export const analyzeFrame = (data: Uint8ClampedArray, width: number, height: number): FrameQuality => {
+  const luma = new Float32Array(width * height);
+  let lumaSum = 0;
+  let bright = 0;
+  let dark = 0;
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    luma[p] = y;
+    lumaSum += y;
+    if (y >= BRIGHT_LUMA) bright++;
+    else if (y <= DARK_LUMA) dark++;
+  }
+
+  const x0 = Math.max(1, Math.floor(width * (1 - CENTER_FRACTION) / 2));
+  const x1 = Math.min(width - 1, Math.ceil(width * (1 + CENTER_FRACTION) / 2));
+  const y0 = Math.max(1, Math.floor(height * (1 - CENTER_FRACTION) / 2));
+  const y1 = Math.min(height - 1, Math.ceil(height * (1 + CENTER_FRACTION) / 2));
+
+  let count = 0;
+  let sum = 0;
+  let sumSq = 0;
+  let edges = 0;
+  let clipped = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = y * width + x;
+      const lap = luma[p - 1] + luma[p + 1] + luma[p - width] + luma[p + width] - 4 * luma[p];
+      sum += lap;
+      sumSq += lap * lap;
+      if (Math.abs(lap) > DETAIL_EDGE) edges++;
+      if (luma[p] >= BRIGHT_LUMA) clipped++;
+      count++;
+    }
+  }
+
+  const mean = count ? sum / count : 0;
+  const total = luma.length || 1;
+  return {
+    sharpness: count ? sumSq / count - mean * mean : 0,
+    detail: count ? edges / count : 0,
+    meanLuma: lumaSum / total,
+    overexposed: bright / total,
+    underexposed: dark / total,
+    glare: count ? clipped / count : 0,
+  };
+};
+
+/**
+ * Turns measurements into a pass/fail verdict and one line of HUD guidance.
+ */
+export const judgeFrame = (quality: FrameQuality): QualityVerdict => {
+  const found = new Set<QualityIssue>();
+  if (quality.underexposed > MAX_UNDEREXPOSED) found.add('dark');
+  if (quality.overexposed > MAX_OVEREXPOSED) found.add('bright');
+  else if (quality.glare > MAX_GLARE) found.add('glare');
+  if (quality.detail < MIN_DETAIL) found.add('distance');
+  if (quality.sharpness < MIN_SHARPNESS) found.add('blur');
+
+  const issues = ISSUE_PRIORITY.filter(issue => found.has(issue));
+  return {
+    passes: issues.length === 0,
+    issues,
+    guidance: issues.length ? GUIDANCE[issues[0]] : 'Artifact locked',
+  };
+};
@@ -0,0 +1,74 @@
+export interface FrameStreamOptions {
+  fps: number;
+  maxWidth: number;
+  quality: number;
+  maxBytesPerSecond: number;
+}
+
+// --- FRAME STREAM PRESETS ---
+// Low-rate, reduced-resolution defaults sized for the live session uplink.
+export const DEFAULT_FRAME_STREAM: FrameStreamOptions = {
+  fps: 1,
+  maxWidth: 640,
+  quality: 0.6,
+  maxBytesPerSecond: 120_000
+};
+
+// Cheaper encodings tried in order when a frame is over budget, relative to the configured width and quality.
+const FALLBACK_ENCODINGS = [
+  { width: 1, quality: 0.6 },
+  { width: 0.75, quality: 0.5 },
+  { width: 0.5, quality: 0.4 },
+];
+
+const encodedBytes = (base64: string) => Math.ceil(base64.length * 0.75);
+
+/**
+ * Samples a playing video element into a throttled stream of JPEG frames
+ * (raw base64, no data-URL prefix). A frame over the rolling one-second byte
+ * budget is re-encoded smaller; one that still doesn't fit is dropped and
+ * reported through `onDrop`. Returns a function that stops the stream.
+ */
+export const startFrameStream = (
+  video: HTMLVideoElement,
+  onFrame: (base64Jpeg: string) => void,
+  onDrop?: () => void,
+  options: FrameStreamOptions = DEFAULT_FRAME_STREAM
+): (() => void) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const sent: { at: number; bytes: number }[] = [];
+
+  const encode = (width: number, quality: number) => {
+    if (!context) return null;
+    const scale = Math.min(1, width / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+  };
+
+  const tick = () => {
+    if (!context || video.readyState < 2 || !video.videoWidth) return;
+
+    const now = Date.now();
+    while (sent.length && now - sent[0].at > 1000) sent.shift();
+    const remaining = options.maxBytesPerSecond - sent.reduce((sum, frame) => sum + frame.bytes, 0);
+
+    let base64 = encode(options.maxWidth, options.quality);
+    for (const step of FALLBACK_ENCODINGS) {
+      if (!base64 || encodedBytes(base64) <= remaining) break;
+      base64 = encode(options.maxWidth * step.width, options.quality * step.quality);
+    }
+    if (!base64 || encodedBytes(base64) > remaining) {
+      onDrop?.();
+      return;
+    }
+
+    sent.push({ at: now, bytes: encodedBytes(base64) });
+    onFrame(base64);
+  };
+
+  const interval = window.setInterval(tick, 1000 / Math.max(0.1, options.fps));
+  return () => clearInterval(interval);
+};
@@ -0,0 +1,12 @@
+import { GoogleGenAI } from "@google/genai";
+
+// --- API PRESETS ---
+// Each model can be overridden at build time (see vite.config.ts) without touching the adapters.
+export const GEMINI_MODELS = {
+  identification: process.env.GEMINI_IDENTIFICATION_MODEL || 'gemini-3-flash-preview',
+  research: process.env.GEMINI_RESEARCH_MODEL || 'gemini-3-flash-preview',
+  generation: process.env.GEMINI_GENERATION_MODEL || 'gemini-2.5-flash-image',
+  live: process.env.GEMINI_LIVE_MODEL || 'gemini-2.5-flash-native-audio-preview-12-2025',
+};
+
+export const createGeminiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -1,11 +1,39 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { WatchInfo, Source, MarketingScenario, UserPreferences, MarketAnalysis } from "../types";
+import { Part, Type } from "@google/genai";
+import { WatchInfo, Source, MarketingScenario, Persona, MarketAnalysis, VintageAd, ShotKind, SupplementaryShot } from "../types";
+import { GEMINI_MODELS, createGeminiClient } from "./geminiConfig";
+import { NoImageError, SAFETY_BLOCK_REASONS, SafetyBlockError, parseModelJson } from "./errors";
+import { validateWatchInfo, validateMarketAnalysis, validateAdCopy } from "./validation";
+import { findAgeBracket, findRegion } from "./personaService";
+import { parsePartialJson } from "./partialJson";
+import { createHistoryId } from "./historyService";
+import { DISPLAY_CURRENCIES } from "./currencyService";
 
-// --- API PRESETS ---
-const IDENTIFICATION_MODEL = 'gemini-3-flash-preview'; 
-const RESEARCH_MODEL = 'gemini-3-flash-preview'; 
-const GENERATION_MODEL = 'gemini-2.5-flash-image'; 
+/**
+ * Raises a SafetyBlockError if the prompt or first candidate was blocked.
+ */
+const assertNotBlocked = (response: { promptFeedback?: { blockReason?: string }; candidates?: { finishReason?: string }[] }) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_BLOCK_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Generation stopped: ${finishReason}`);
+  }
+};
+
+/**
+ * Returns the first inline image payload (raw base64) of a generation response.
+ */
+const extractInlineImage = (response: { candidates?: { content?: { parts?: { inlineData?: { data?: string } }[] } }[] }): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return part.inlineData.data;
+    }
+  }
+  return null;
+};
 
 /**
  * Utilizes Gemini 2.5 Flash Image to generate a high-fidelity, technical 
@@ -13,7 +41,7 @@ const GENERATION_MODEL = 'gemini-2.5-flash-image';
  * representation that assists in forensic identification and visualization.
  */
 export const vectorizeImage = async (base64Data: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = createGeminiClient();
   
   const prompt = `Create a high-fidelity technical "Neural Blueprint" of the watch in this photo. 
   STYLE: 3D wireframe schematic, holographic technical drawing.
@@ -23,7 +51,7 @@ export const vectorizeImage = async (base64Data: string): Promise<string> => {
   MOOD: Uncanny, forensic, highly investigative.`;
 
   const response = await ai.models.generateContent({
-    model: GENERATION_MODEL,
+    model: GEMINI_MODELS.generation,
     contents: [{
       parts: [
         { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
@@ -33,16 +61,12 @@ export const vectorizeImage = async (base64Data: string): Promise<string> => {
     config: { imageConfig: { aspectRatio: "9:16" } }
   });
 
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-  }
+  assertNotBlocked(response);
+  const blueprint = extractInlineImage(response);
+  if (blueprint) return blueprint;
   
-  // Fallback to a simple high-contrast filter if generation fails
-  return base64Data; 
+  // Callers decide whether to continue photo-only; never pass the photo off as a blueprint.
+  throw new NoImageError("No blueprint generated by the temporal engine.");
 };
 
 const applyWatermark = async (base64Data: string): Promise<string> => {
@@ -94,18 +118,7 @@ const HOROLOGICAL_WHITELIST = [
   "vintagewatchresources.com"
 ];
 
-export const identifyWatch = async (originalBase64: string, blueprintBase64: string): Promise<WatchInfo> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: IDENTIFICATION_MODEL,
-    contents: [{
-      parts: [
-        { text: "IMAGE A: PHOTOGRAPH (REALITY)" },
-        { inlineData: { mimeType: 'image/jpeg', data: originalBase64 } },
-        { text: "IMAGE B: NEURAL BLUEPRINT (FORENSIC VECTOR ANALYSIS)" },
-        { inlineData: { mimeType: 'image/jpeg', data: blueprintBase64 } },
-        {
-          text: `ACT AS A FORENSIC HOROLOGIST. Identify this watch using dual-stream technical verification.
+const FORENSIC_PROMPT = `ACT AS A FORENSIC HOROLOGIST. Identify this watch using dual-stream technical verification.
           
           PHASE 1: NEURAL VECTOR ANALYSIS
           Examine IMAGE B specifically. Analyze the wireframe edges, lug angles, and bezel layout extracted by the neural engine. Compare these against technical watch manuals and movement blueprints.
@@ -116,10 +129,69 @@ export const identifyWatch = async (originalBase64: string, blueprintBase64: str
           PHASE 3: DATABASE SEARCH
           Search ${HOROLOGICAL_WHITELIST.join(", ")} to confirm the exact model, caliber, and release year.
           
-          Return JSON format precisely.`
-        },
-      ],
-    }],
+          Return JSON format precisely.`;
+
+const FAST_PROMPT = `ACT AS A FORENSIC HOROLOGIST. Identify this watch from the photograph (IMAGE A).
+          
+          PHASE 1: VISUAL AUTHENTICATION
+          Read dial text, hallmark engravings and handset details. Note case shape, lug angles and bezel layout.
+          
+          PHASE 2: DATABASE SEARCH
+          Search ${HOROLOGICAL_WHITELIST.join(", ")} to confirm the exact model, caliber, and release year.
+          
+          Return JSON format precisely.`;
+
+const SHOT_LABELS: Record<ShotKind, string> = {
+  dial: "DIAL SHOT: The primary photograph (IMAGE A).",
+  caseback: "CASEBACK SHOT: Read the serial number, reference stampings, hallmarks and caseback engravings.",
+  side: "SIDE PROFILE SHOT: Check case thickness, crown and guards, pusher shape and lug profile.",
+  movement: "MOVEMENT SHOT: Identify the caliber, finishing, jewel count and any service marks. Note lume condition if visible.",
+};
+
+const SHOT_ATTRIBUTION_PROMPT = `SUPPLEMENTARY SHOTS: Several labelled views of the same watch are attached. Use every view in the audit.
+          For each forensicVerification point, set "shot" to the view the observation was read from: "dial", "caseback", "side" or "movement".`;
+
+/**
+ * Identifies the watch. With a blueprint this runs the dual-stream forensic
+ * audit; without one it falls back to the faster photo-only identification.
+ * The response is streamed; `onPartial` receives the dossier as it fills in.
+ */
+export const identifyWatch = async (
+  originalBase64: string,
+  blueprintBase64?: string,
+  onPartial?: (partial: Partial<WatchInfo>) => void,
+  dialCropBase64?: string,
+  shots: SupplementaryShot[] = []
+): Promise<WatchInfo> => {
+  const ai = createGeminiClient();
+  const parts: Part[] = [
+    { text: "IMAGE A: PHOTOGRAPH (REALITY)" },
+    { inlineData: { mimeType: 'image/jpeg', data: originalBase64 } },
+  ];
+  if (dialCropBase64) {
+    parts.push(
+      { text: "DIAL CLOSE-UP: Tight crop of the dial from IMAGE A. Read the dial text, logo and reference markings from this crop." },
+      { inlineData: { mimeType: 'image/jpeg', data: dialCropBase64 } },
+    );
+  }
+  if (blueprintBase64) {
+    parts.push(
+      { text: "IMAGE B: NEURAL BLUEPRINT (FORENSIC VECTOR ANALYSIS)" },
+      { inlineData: { mimeType: 'image/jpeg', data: blueprintBase64 } },
+    );
+  }
+  for (const shot of shots) {
+    parts.push(
+      { text: SHOT_LABELS[shot.kind] },
+      { inlineData: { mimeType: 'image/jpeg', data: shot.base64 } },
+    );
+  }
+  parts.push({ text: blueprintBase64 ? FORENSIC_PROMPT : FAST_PROMPT });
+  if (shots.length) parts.push({ text: SHOT_ATTRIBUTION_PROMPT });
+
+  const stream = await ai.models.generateContentStream({
+    model: GEMINI_MODELS.identification,
+    contents: [{ parts }],
     config: {
       tools: [{ googleSearch: {} }],
       responseMimeType: "application/json",
@@ -154,7 +226,8 @@ export const identifyWatch = async (originalBase64: string, blueprintBase64: str
                 feature: { type: Type.STRING },
                 observation: { type: Type.STRING },
                 status: { type: Type.STRING, enum: ["Confirmed", "Discrepancy", "Variation"] },
-                details: { type: Type.STRING }
+                details: { type: Type.STRING },
+                shot: { type: Type.STRING, enum: ["dial", "caseback", "side", "movement"] }
               },
               required: ["feature", "observation", "status", "details"]
             }
@@ -170,37 +243,87 @@ export const identifyWatch = async (originalBase64: string, blueprintBase64: str
               },
               required: ["movieTitle", "characterName", "context"]
             }
+          },
+          casebackText: { type: Type.STRING, description: "Serial number and reference engraving exactly as legible on the caseback or movement, or empty if none is visible" },
+          confidence: { type: Type.NUMBER, description: "Probability from 0 to 1 that modelName is the exact reference" },
+          alternates: {
+            type: Type.ARRAY,
+            description: "Up to 3 other references this watch could plausibly be, most likely first",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                modelName: { type: Type.STRING },
+                releaseYear: { type: Type.STRING },
+                confidence: { type: Type.NUMBER },
+                reason: { type: Type.STRING, description: "The visible detail that separates it from the top pick" }
+              },
+              required: ["modelName", "releaseYear", "confidence", "reason"]
+            }
           }
         },
-        required: ["modelName", "releaseYear", "eraContext", "clothingDescription", "environmentDescription", "historicalFunFact", "marketingScenarios", "forensicVerification", "associatedMovies"]
+        required: ["modelName", "releaseYear", "confidence", "alternates", "eraContext", "clothingDescription", "environmentDescription", "historicalFunFact", "marketingScenarios", "forensicVerification", "associatedMovies"]
       }
     },
   });
 
-  const watchData: WatchInfo = JSON.parse(response.text || "{}");
+  let text = '';
   const sources: Source[] = [];
-  const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-  if (groundingMetadata && groundingMetadata.groundingChunks) {
-    groundingMetadata.groundingChunks.forEach((chunk: any) => {
-      if (chunk.web && chunk.web.uri) {
-        sources.push({ title: chunk.web.title || 'View Database Entry', url: chunk.web.uri });
+  for await (const response of stream) {
+    assertNotBlocked(response);
+    text += response.text || '';
+
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    if (groundingMetadata && groundingMetadata.groundingChunks) {
+      groundingMetadata.groundingChunks.forEach((chunk: any) => {
+        if (chunk.web && chunk.web.uri && !sources.some(s => s.url === chunk.web.uri)) {
+          sources.push({ title: chunk.web.title || 'View Database Entry', url: chunk.web.uri });
+        }
+      });
+    }
+
+    if (onPartial) {
+      const partial = parsePartialJson(text);
+      if (partial && typeof partial === 'object' && !Array.isArray(partial)) {
+        onPartial(partial as Partial<WatchInfo>);
       }
-    });
+    }
   }
+
+  const watchData = validateWatchInfo(parseModelJson<unknown>(text));
   return { ...watchData, sources };
 };
 
+/**
+ * Prompt lines that place the persona in the scene: who they are, where the
+ * scene is set, and any personal styling notes.
+ */
+const personaDirectives = (persona: Persona, targetYear: string): string => {
+  const region = findRegion(persona.region);
+  const lines = [
+    `SUBJECT: The wearer is ${findAgeBracket(persona.ageBracket).prompt}; dress them as someone of that age would have dressed in ${region.label} in ${targetYear}.`,
+    `LOCALE: Set the scene in ${region.prompt}, with architecture, signage style, vehicles and people typical of that region in ${targetYear}.`,
+  ];
+  if (persona.styleNotes.trim()) {
+    lines.push(`PERSONAL STYLE: Honor these notes where the era allows: ${persona.styleNotes.trim()}.`);
+  }
+  if (persona.selfie) {
+    lines.push(`LIKENESS: If the person's face is visible, they should resemble the person in the second reference image.`);
+  }
+  return lines.join('\n  ');
+};
+
 export const transformEra = async (
   base64Image: string,
   watch: WatchInfo,
-  prefs: UserPreferences,
+  persona: Persona | null,
   customScenario?: MarketingScenario,
-  skipWatermark: boolean = false
+  skipWatermark: boolean = false,
+  yearOverride?: string
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = createGeminiClient();
   const env = customScenario?.environmentPrompt || watch.environmentDescription;
   const cloth = customScenario?.clothingPrompt || watch.clothingDescription;
-  const targetYear = prefs.customYear || watch.releaseYear;
+  const targetYear = yearOverride || persona?.customYear || watch.releaseYear;
   
   const prompt = `Transform this photo into a photorealistic scene set in the year ${targetYear}. 
   CRITICAL INSTRUCTION: Do NOT include any text, numbers, letters, years, labels, or graphical watermarks in the image. 
@@ -208,38 +331,38 @@ export const transformEra = async (
   RETAIN: The user's arm/hand and the ${watch.modelName} watch exactly as they appear in the original photo.
   ALTER CLOTHING: Replace current clothing with: ${cloth}. 
   ALTER BACKGROUND: Replace current background with a realistic: ${env}.
-  STYLIZATION: Use the film grain and color grading of high-quality photography from ${targetYear}.`;
+  STYLIZATION: Use the film grain and color grading of high-quality photography from ${targetYear}.${persona ? `
+  ${personaDirectives(persona, targetYear)}` : ''}`;
+
+  const parts: Part[] = [{ inlineData: { mimeType: 'image/jpeg', data: base64Image } }];
+  if (persona?.selfie) {
+    parts.push({ inlineData: { mimeType: 'image/jpeg', data: persona.selfie.split(',')[1] } });
+  }
+  parts.push({ text: prompt });
 
   const response = await ai.models.generateContent({
-    model: GENERATION_MODEL,
-    contents: [{
-      parts: [
-        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-        { text: prompt },
-      ],
-    }],
+    model: GEMINI_MODELS.generation,
+    contents: [{ parts }],
     config: { imageConfig: { aspectRatio: "9:16" } }
   });
 
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        const base64 = part.inlineData.data;
-        const imageUrl = `data:image/png;base64,${base64}`;
-        return skipWatermark ? imageUrl : await applyWatermark(imageUrl);
-      }
-    }
+  assertNotBlocked(response);
+  const base64 = extractInlineImage(response);
+  if (base64) {
+    const imageUrl = `data:image/png;base64,${base64}`;
+    return skipWatermark ? imageUrl : await applyWatermark(imageUrl);
   }
   
-  throw new Error("No image generated by the temporal engine.");
+  throw new NoImageError();
 };
 
 export const analyzeMarketValue = async (modelName: string): Promise<MarketAnalysis> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = createGeminiClient();
   const response = await ai.models.generateContent({
-    model: RESEARCH_MODEL,
+    model: GEMINI_MODELS.research,
     contents: `Analyze the current collector market for the following watch: ${modelName}. 
-    Provide historical price data for the last 3 years, current market sentiment, and an investment rating (A+, A, B, C). 
+    Provide yearly average price data covering the last 10 years (one point per year), current market sentiment, and an investment rating (A+, A, B, C). 
+    Quote every price in one currency and give it as an ISO 4217 code (one of ${DISPLAY_CURRENCIES.join(', ')}), never a symbol.
     Include a concise expert horological insight.`,
     config: {
       tools: [{ googleSearch: {} }],
@@ -247,7 +370,7 @@ export const analyzeMarketValue = async (modelName: string): Promise<MarketAnaly
       responseSchema: {
         type: Type.OBJECT,
         properties: {
-          currency: { type: Type.STRING },
+          currency: { type: Type.STRING, enum: DISPLAY_CURRENCIES },
           currentMinPrice: { type: Type.NUMBER },
           currentMaxPrice: { type: Type.NUMBER },
           priceHistory: {
@@ -270,5 +393,69 @@ export const analyzeMarketValue = async (modelName: string): Promise<MarketAnaly
     }
   });
 
-  return JSON.parse(response.text || "{}");
+  assertNotBlocked(response);
+  return validateMarketAnalysis(parseModelJson<unknown>(response.text));
+};
+
+/**
+ * Writes a period-authentic print advertisement for the watch, using a
+ * marketing scenario as the creative brief: copy in the voice of the release
+ * year plus a magazine-style photograph built from the user's capture.
+ */
+export const generateVintageAd = async (
+  base64Image: string,
+  watch: WatchInfo,
+  brief: MarketingScenario
+): Promise<VintageAd> => {
+  const ai = createGeminiClient();
+
+  const copyResponse = await ai.models.generateContent({
+    model: GEMINI_MODELS.research,
+    contents: `You are an advertising copywriter working in ${watch.releaseYear}. Write a print magazine advertisement for the ${watch.modelName}.
+    CREATIVE BRIEF: ${brief.title} - ${brief.description}
+    ERA CONTEXT: ${watch.eraContext}
+    VOICE: Use the vocabulary, slogans, claims and rhythm of genuine ${watch.releaseYear} watch advertising. No modern slang, no hashtags, no references to anything after ${watch.releaseYear}.
+    Keep the headline under 10 words and the body copy under 60 words.`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          headline: { type: Type.STRING },
+          description: { type: Type.STRING }
+        },
+        required: ["headline", "description"]
+      }
+    }
+  });
+
+  assertNotBlocked(copyResponse);
+  const copy = validateAdCopy(parseModelJson<unknown>(copyResponse.text));
+
+  const imageResponse = await ai.models.generateContent({
+    model: GEMINI_MODELS.generation,
+    contents: [{
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: `Turn this photo into the hero photograph of a ${watch.releaseYear} glossy magazine watch advertisement.
+        SCENE: ${brief.environmentPrompt}. WARDROBE: ${brief.clothingPrompt}.
+        RETAIN: The ${watch.modelName} watch exactly as it appears in the original photo, shown prominently.
+        STYLE: Printed-page look of ${watch.releaseYear} advertising photography: halftone texture, period color palette, studio lighting typical of the time.
+        CRITICAL INSTRUCTION: Do NOT render any text, logos or lettering; the copy is typeset separately.` },
+      ],
+    }],
+    config: { imageConfig: { aspectRatio: "3:4" } }
+  });
+
+  assertNotBlocked(imageResponse);
+  const base64 = extractInlineImage(imageResponse);
+  if (!base64) throw new NoImageError();
+
+  return {
+    id: `ad-${brief.id}-${createHistoryId()}`,
+    year: watch.releaseYear,
+    headline: copy.headline,
+    description: copy.description,
+    imageUrl: `data:image/png;base64,${base64}`,
+  };
 };
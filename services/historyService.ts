@@ -0,0 +1,92 @@
+import { HistoryItem } from "../types";
+
+// --- ARCHIVE PRESETS ---
+const DB_NAME = 'chronoportal';
+const DB_VERSION = 2;
+const HISTORY_STORE = 'history';
+export const COLLECTION_STORE = 'collection';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily upgrades) the local IndexedDB archive that stores
+ * completed scans and the owned collection. The connection is shared across calls.
+ */
+const openArchive = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("Local archive unavailable: IndexedDB is not supported in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      // v2: owned collection, one record per modelName
+      if (!db.objectStoreNames.contains(COLLECTION_STORE)) {
+        const store = db.createObjectStore(COLLECTION_STORE, { keyPath: 'modelName' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = HISTORY_STORE
+): Promise<T> => {
+  const db = await openArchive();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createHistoryId = (): string => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `scan-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const saveHistoryItem = async (item: HistoryItem): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(item));
+};
+
+/**
+ * Returns every archived scan, newest first.
+ */
+export const getHistory = async (): Promise<HistoryItem[]> => {
+  const items = await runTransaction<HistoryItem[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const getHistoryItem = async (id: string): Promise<HistoryItem | null> => {
+  const item = await runTransaction<HistoryItem | undefined>('readonly', store => store.get(id));
+  return item || null;
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+};
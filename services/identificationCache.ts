@@ -0,0 +1,126 @@
+import { WatchInfo, PipelineMode } from "../types";
+
+// --- CACHE PRESETS ---
+const CACHE_KEY = 'chronoportal.identificationCache';
+const MAX_ENTRIES = 50;
+// Maximum differing bits (of 64) for two captures to count as the same watch.
+// Kept tight: different watches shot with similar framing can land within a few bits.
+const MATCH_THRESHOLD = 3;
+// Captures must also share an aspect ratio to within this fraction.
+const ASPECT_TOLERANCE = 0.01;
+
+interface CacheEntry {
+  hash: string;
+  mode: PipelineMode;
+  timestamp: number;
+  watch: WatchInfo;
+}
+
+/**
+ * Computes a 64-bit difference hash (dHash) of a base64 JPEG, suffixed with
+ * the image's dimensions (`<hex>:<width>x<height>`). Near-identical framings
+ * of the same watch produce hashes a few bits apart.
+ */
+export const computeImageHash = (base64Jpeg: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 9;
+      canvas.height = 8;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return reject(new Error("Canvas unavailable for hashing."));
+      ctx.drawImage(img, 0, 0, 9, 8);
+      const { data } = ctx.getImageData(0, 0, 9, 8);
+
+      const luma = (x: number, y: number) => {
+        const i = (y * 9 + x) * 4;
+        return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+      };
+
+      let hash = '';
+      for (let y = 0; y < 8; y++) {
+        let nibble = 0;
+        for (let x = 0; x < 8; x++) {
+          nibble = (nibble << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+          if (x % 4 === 3) {
+            hash += nibble.toString(16);
+            nibble = 0;
+          }
+        }
+      }
+      resolve(`${hash}:${img.naturalWidth}x${img.naturalHeight}`);
+    };
+    img.onerror = () => reject(new Error("Unable to decode image for hashing."));
+    img.src = `data:image/jpeg;base64,${base64Jpeg}`;
+  });
+};
+
+const splitHash = (hash: string): { bits: string; aspect: number | null } => {
+  const [bits, size = ''] = hash.split(':');
+  const [width, height] = size.split('x').map(Number);
+  return { bits, aspect: width > 0 && height > 0 ? width / height : null };
+};
+
+const sameAspect = (a: number | null, b: number | null) =>
+  a !== null && b !== null && Math.abs(a - b) / b <= ASPECT_TOLERANCE;
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+};
+
+const readCache = (): CacheEntry[] => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCache = (entries: CacheEntry[]) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (err) {
+    console.warn("Identification cache write failed", err);
+  }
+};
+
+/**
+ * Returns a prior identification of a visually matching capture of the same
+ * shape. Forensic lookups only reuse forensic results; fast lookups accept
+ * either. Entries hashed without dimensions never match.
+ */
+export const findCachedIdentification = (hash: string, mode: PipelineMode): WatchInfo | null => {
+  const target = splitHash(hash);
+  let best: CacheEntry | null = null;
+  let bestDistance = Infinity;
+  for (const entry of readCache()) {
+    if (mode === 'forensic' && entry.mode !== 'forensic') continue;
+    const candidate = splitHash(entry.hash);
+    if (!sameAspect(target.aspect, candidate.aspect)) continue;
+    const distance = hammingDistance(target.bits, candidate.bits);
+    if (distance <= MATCH_THRESHOLD && distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best ? best.watch : null;
+};
+
+export const cacheIdentification = (hash: string, mode: PipelineMode, watch: WatchInfo) => {
+  const entries = readCache().filter(entry => entry.hash !== hash);
+  writeCache([{ hash, mode, timestamp: Date.now(), watch }, ...entries]);
+};
+
+export const clearIdentificationCache = () => {
+  localStorage.removeItem(CACHE_KEY);
+};
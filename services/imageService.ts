@@ -0,0 +1,183 @@
+// --- CANVAS PRESETS ---
+const PANEL_WIDTH = 720;
+const PANEL_HEIGHT = 1280;
+const AD_WIDTH = 1080;
+const AD_HEIGHT = 1440;
+const AD_MARGIN = 64;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Unable to decode image."));
+    img.src = src;
+  });
+};
+
+/**
+ * Draws an image into a rectangle using object-fit: cover semantics.
+ */
+export const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.width, h / img.height);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(img, (img.width - sw) / 2, (img.height - sh) / 2, sw, sh, x, y, w, h);
+};
+
+/**
+ * Re-encodes an image as JPEG with its longest edge capped at `maxEdge`.
+ */
+export const resizeImage = async (src: string, maxEdge: number, quality: number = 0.85): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxEdge / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable for resizing.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Builds a side-by-side "then vs. now" composite for sharing.
+ */
+export const createComparisonComposite = async (
+  thenSrc: string,
+  nowSrc: string,
+  thenLabel: string,
+  nowLabel: string = 'Now'
+): Promise<string> => {
+  const [thenImg, nowImg] = await Promise.all([loadImage(thenSrc), loadImage(nowSrc)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = PANEL_WIDTH * 2;
+  canvas.height = PANEL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable for composite export.");
+
+  drawCover(ctx, thenImg, 0, 0, PANEL_WIDTH, PANEL_HEIGHT);
+  drawCover(ctx, nowImg, PANEL_WIDTH, 0, PANEL_WIDTH, PANEL_HEIGHT);
+
+  // Divider
+  ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+  ctx.fillRect(PANEL_WIDTH - 2, 0, 4, PANEL_HEIGHT);
+
+  // Panel labels
+  ctx.font = `bold 48px "JetBrains Mono", monospace`;
+  ctx.textAlign = 'center';
+  [[thenLabel, PANEL_WIDTH / 2], [nowLabel.toUpperCase(), PANEL_WIDTH * 1.5]].forEach(([label, x]) => {
+    const width = ctx.measureText(String(label)).width + 48;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.fillRect(Number(x) - width / 2, 40, width, 72);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(String(label), Number(x), 94);
+  });
+
+  ctx.font = `bold 24px "JetBrains Mono", monospace`;
+  ctx.textAlign = 'right';
+  ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+  ctx.fillText("#chronoportalpowerbygemini", canvas.width - 24, canvas.height - 24);
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Typesets a vintage advertisement as a single magazine page: photograph on
+ * top, serif headline and body copy on aged paper below.
+ */
+export const createAdComposite = async (
+  imageSrc: string,
+  headline: string,
+  body: string,
+  year: string
+): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const canvas = document.createElement('canvas');
+  canvas.width = AD_WIDTH;
+  canvas.height = AD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable for advertisement export.");
+
+  const textWidth = AD_WIDTH - AD_MARGIN * 2;
+  const photoHeight = Math.round(AD_HEIGHT * 0.62);
+
+  ctx.fillStyle = "#f3ead8";
+  ctx.fillRect(0, 0, AD_WIDTH, AD_HEIGHT);
+  drawCover(ctx, img, AD_MARGIN, AD_MARGIN, textWidth, photoHeight - AD_MARGIN);
+
+  let y = photoHeight + 80;
+  ctx.fillStyle = "#1c1917";
+  ctx.textAlign = 'center';
+  ctx.font = `bold 60px Georgia, "Times New Roman", serif`;
+  wrapLines(ctx, headline, textWidth).slice(0, 2).forEach(line => {
+    ctx.fillText(line, AD_WIDTH / 2, y);
+    y += 70;
+  });
+
+  y += 10;
+  ctx.fillStyle = "#44403c";
+  ctx.font = `italic 30px Georgia, "Times New Roman", serif`;
+  wrapLines(ctx, body, textWidth - 80).slice(0, 6).forEach(line => {
+    ctx.fillText(line, AD_WIDTH / 2, y);
+    y += 42;
+  });
+
+  ctx.font = `bold 22px "JetBrains Mono", monospace`;
+  ctx.fillStyle = "rgba(28, 25, 23, 0.6)";
+  ctx.textAlign = 'left';
+  ctx.fillText(`PRINTED ${year}`, AD_MARGIN, AD_HEIGHT - 32);
+  ctx.textAlign = 'right';
+  ctx.fillText("#chronoportalpowerbygemini", AD_WIDTH - AD_MARGIN, AD_HEIGHT - 32);
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+/**
+ * Shares a file through the Web Share API, falling back to a download.
+ */
+export const shareBlob = async (blob: Blob, fileName: string, text: string) => {
+  const file = new File([blob], fileName, { type: blob.type || 'image/png' });
+
+  const shareData = {
+    title: 'ChronoPortal - Time Travel via Horology',
+    text,
+    files: [file],
+  };
+
+  if (navigator.canShare && navigator.canShare(shareData)) {
+    await navigator.share(shareData);
+  } else {
+    // Fallback: Download the file
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
+
+/**
+ * Shares an image through the Web Share API, falling back to a download.
+ */
+export const shareImage = async (dataUrl: string, fileName: string, text: string) => {
+  const blob = await (await fetch(dataUrl)).blob();
+  await shareBlob(blob, fileName, text);
+};
@@ -1,20 +1,32 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { GEMINI_MODELS, createGeminiClient } from './geminiConfig';
 
 export interface LiveSessionCallbacks {
   onTranscription: (text: string, isUser: boolean) => void;
   onAudioChunk: (base64Audio: string) => void;
   onInterrupted: () => void;
+  // The socket errored or closed. Also fires after `close()`, so callers ignore it once they have hung up.
+  onDisconnected: (reason?: string) => void;
 }
 
-export const connectTemporalGuide = (
+/**
+ * Provider-agnostic handle on an open Temporal Guide session.
+ */
+export interface TemporalGuideSession {
+  sendAudio: (base64PCM: string) => void;
+  sendFrame: (base64Jpeg: string) => void;
+  close: () => void;
+}
+
+export const connectTemporalGuide = async (
   eraInfo: string,
   callbacks: LiveSessionCallbacks
-) => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+): Promise<TemporalGuideSession> => {
+  const ai = createGeminiClient();
   
-  const sessionPromise = ai.live.connect({
-    model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+  const session = await ai.live.connect({
+    model: GEMINI_MODELS.live,
     callbacks: {
       onopen: () => console.log('Temporal Link Established'),
       onmessage: async (message: LiveServerMessage) => {
@@ -33,8 +45,14 @@ export const connectTemporalGuide = (
           callbacks.onInterrupted();
         }
       },
-      onerror: (e) => console.error('Temporal Distortion:', e),
-      onclose: () => console.log('Temporal Link Severed'),
+      onerror: (e) => {
+        console.error('Temporal Distortion:', e);
+        callbacks.onDisconnected(e.message);
+      },
+      onclose: (e) => {
+        console.log('Temporal Link Severed');
+        callbacks.onDisconnected(e.reason);
+      },
     },
     config: {
       responseModalities: [Modality.AUDIO],
@@ -51,7 +69,15 @@ export const connectTemporalGuide = (
     },
   });
 
-  return sessionPromise;
+  return {
+    sendAudio: (base64PCM: string) => session.sendRealtimeInput({
+      media: { data: base64PCM, mimeType: 'audio/pcm;rate=16000' }
+    }),
+    sendFrame: (base64Jpeg: string) => session.sendRealtimeInput({
+      media: { data: base64Jpeg, mimeType: 'image/jpeg' }
+    }),
+    close: () => session.close(),
+  };
 };
 
 // Audio Utilities for Live PCM
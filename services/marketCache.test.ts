@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_MARKET } from './mockService';
+
+vi.mock('./aiProvider', () => ({ analyzeMarketValue: vi.fn(async () => MOCK_MARKET) }));
+vi.mock('./collectionService', () => ({ recordMarketAnalysis: vi.fn(async () => {}) }));
+
+const { analyzeMarketValue } = await import('./aiProvider');
+const { queueMarketRefresh } = await import('./marketCache');
+
+describe('queueMarketRefresh', () => {
+  // One clock for the whole suite: the queue's spacing carries over between tests.
+  beforeAll(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+  beforeEach(async () => {
+    await vi.advanceTimersByTimeAsync(3000);
+    vi.mocked(analyzeMarketValue).mockClear();
+  });
+
+  it('spaces calls from separate callers on one queue', async () => {
+    const refreshed: string[] = [];
+    queueMarketRefresh(['A', 'B'], name => refreshed.push(name));
+    queueMarketRefresh(['C'], name => refreshed.push(name));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(analyzeMarketValue).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(analyzeMarketValue).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(6001);
+    expect(refreshed).toEqual(['A', 'B', 'C']);
+  });
+
+  it('fetches a model queued by two callers once and settles both', async () => {
+    const settled: string[] = [];
+    const first = vi.fn();
+    const second = vi.fn();
+    queueMarketRefresh(['Shared'], first, () => settled.push('first'));
+    queueMarketRefresh(['Shared'], second, () => settled.push('second'));
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(analyzeMarketValue).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledOnce();
+    expect(second).toHaveBeenCalledOnce();
+    expect(settled).toEqual(['first', 'second']);
+  });
+
+  it('drops a stopped caller\'s pending models', async () => {
+    const onRefreshed = vi.fn();
+    const stop = queueMarketRefresh(['X', 'Y'], onRefreshed);
+    stop();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(onRefreshed).not.toHaveBeenCalled();
+    // Only a fetch already in flight when stopped may still run.
+    expect(vi.mocked(analyzeMarketValue).mock.calls.length).toBeLessThanOrEqual(1);
+  });
+});
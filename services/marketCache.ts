@@ -0,0 +1,138 @@
+import { MarketAnalysis } from "../types";
+import { analyzeMarketValue } from "./aiProvider";
+import { recordMarketAnalysis } from "./collectionService";
+
+// --- MARKET CACHE PRESETS ---
+const MARKET_CACHE_KEY = 'chronoportal.marketCache';
+const STALE_DAYS_KEY = 'chronoportal.marketStaleDays';
+export const DEFAULT_STALE_DAYS = 7;
+export const MAX_STALE_DAYS = 30;
+const MAX_ENTRIES = 100;
+// Gap between background refreshes so a large collection never bursts the search quota.
+const REFRESH_INTERVAL_MS = 3000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CachedMarket {
+  market: MarketAnalysis;
+  fetchedAt: number;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const loadStaleDays = (): number => {
+  const days = Number(localStorage.getItem(STALE_DAYS_KEY));
+  return days >= 1 && days <= MAX_STALE_DAYS ? days : DEFAULT_STALE_DAYS;
+};
+
+export const saveStaleDays = (days: number) => localStorage.setItem(STALE_DAYS_KEY, String(days));
+
+export const isMarketStale = (fetchedAt: number | undefined, staleDays: number = loadStaleDays()): boolean =>
+  !fetchedAt || Date.now() - fetchedAt > staleDays * DAY_MS;
+
+const readCache = (): Record<string, CachedMarket> => {
+  try {
+    const raw = localStorage.getItem(MARKET_CACHE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeCache = (cache: Record<string, CachedMarket>) => {
+  // Keep the newest reads when trimming.
+  const trimmed = Object.fromEntries(
+    Object.entries(cache).sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt).slice(0, MAX_ENTRIES)
+  );
+  try {
+    localStorage.setItem(MARKET_CACHE_KEY, JSON.stringify(trimmed));
+  } catch (err) {
+    console.warn("Market cache write failed", err);
+  }
+};
+
+export const getCachedMarket = (modelName: string): CachedMarket | null => readCache()[modelName] || null;
+
+/**
+ * Returns the cached market read for a model while it is fresh, otherwise
+ * fetches a new one. Every fetch is also stored on the watch's collection
+ * record when it is owned.
+ */
+export const fetchMarketAnalysis = async (modelName: string, force: boolean = false): Promise<CachedMarket> => {
+  const cached = getCachedMarket(modelName);
+  if (cached && !force && !isMarketStale(cached.fetchedAt)) return cached;
+
+  const entry: CachedMarket = { market: await analyzeMarketValue(modelName), fetchedAt: Date.now() };
+  writeCache({ ...readCache(), [modelName]: entry });
+  recordMarketAnalysis(modelName, entry.market).catch(err => console.error("Collection write failed", err));
+  return entry;
+};
+
+interface RefreshCaller {
+  onRefreshed: (modelName: string, result: CachedMarket) => void;
+  onSettled?: () => void;
+  pending: number;
+  cancelled: boolean;
+}
+
+// One queue for every caller, so the dashboard and the watchlist check share the spacing.
+const refreshQueue: { modelName: string; callers: RefreshCaller[] }[] = [];
+// The job being fetched right now; a caller asking for the same model joins it.
+let activeJob: { modelName: string; callers: RefreshCaller[] } | null = null;
+let isDraining = false;
+let lastRefreshAt = 0;
+
+const drainRefreshQueue = async () => {
+  if (isDraining) return;
+  isDraining = true;
+  while (refreshQueue.length) {
+    const wait = lastRefreshAt + REFRESH_INTERVAL_MS - Date.now();
+    if (wait > 0) await delay(wait);
+    // Cancellations during the wait may have emptied the queue.
+    const job = refreshQueue.shift();
+    if (!job) break;
+    activeJob = job;
+    let result: CachedMarket | null = null;
+    try {
+      result = await fetchMarketAnalysis(job.modelName, true);
+    } catch (err) {
+      console.warn(`Market refresh failed for ${job.modelName}`, err);
+    }
+    lastRefreshAt = Date.now();
+    activeJob = null;
+    for (const caller of job.callers) {
+      if (caller.cancelled) continue;
+      if (result) caller.onRefreshed(job.modelName, result);
+      if (--caller.pending === 0) caller.onSettled?.();
+    }
+  }
+  isDraining = false;
+};
+
+/**
+ * Refreshes models one at a time through the shared queue, with a pause
+ * between calls across all callers. A model already queued by another caller
+ * is fetched once for both. Failures are logged and skipped. Returns a
+ * function that stops this caller's refreshes.
+ */
+export const queueMarketRefresh = (
+  modelNames: string[],
+  onRefreshed: (modelName: string, result: CachedMarket) => void,
+  onSettled?: () => void
+): (() => void) => {
+  const caller: RefreshCaller = { onRefreshed, onSettled, pending: 0, cancelled: false };
+  for (const modelName of new Set(modelNames)) {
+    const queued = activeJob?.modelName === modelName ? activeJob : refreshQueue.find(job => job.modelName === modelName);
+    if (queued) queued.callers.push(caller);
+    else refreshQueue.push({ modelName, callers: [caller] });
+    caller.pending++;
+  }
+  if (caller.pending === 0) onSettled?.();
+  drainRefreshQueue();
+  return () => {
+    caller.cancelled = true;
+    for (let i = refreshQueue.length - 1; i >= 0; i--) {
+      refreshQueue[i].callers = refreshQueue[i].callers.filter(c => c !== caller);
+      if (refreshQueue[i].callers.length === 0) refreshQueue.splice(i, 1);
+    }
+  };
+};
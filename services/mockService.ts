@@ -0,0 +1,188 @@
+import { WatchInfo, MarketingScenario, Persona, MarketAnalysis, SupplementaryShot } from "../types";
+import type { AIProvider } from "./aiProvider";
+import { LiveSessionCallbacks, TemporalGuideSession } from "./liveService";
+import { createHistoryId } from "./historyService";
+
+// --- FIXTURE PRESETS ---
+// Simulated latency keeps loading states visible during offline demos.
+const MOCK_LATENCY_MS = 400;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const MOCK_WATCH: WatchInfo = {
+  modelName: "Seiko 6139-6002 'Pogue' Chronograph",
+  releaseYear: "1973",
+  confidence: 0.82,
+  alternates: [
+    {
+      modelName: "Seiko 6139-6005 Chronograph",
+      releaseYear: "1970",
+      confidence: 0.12,
+      reason: "Same caliber; the 6005 has a rounder case without crown guards."
+    }
+  ],
+  eraContext: "The early 1970s: the Skylab missions, disco on the horizon and the first automatic chronographs reaching wrists.",
+  clothingDescription: "a wide-collared polyester shirt in burnt orange with a brown suede jacket",
+  environmentDescription: "a sun-washed suburban street lined with station wagons and muscle cars",
+  historicalFunFact: "Colonel William Pogue wore a 6139 aboard Skylab 4 in 1973, making it one of the first automatic chronographs in space.",
+  marketingScenarios: [
+    {
+      id: "mock-skylab",
+      title: "Skylab Countdown",
+      description: "Mission control on launch day, 1973.",
+      environmentPrompt: "a NASA mission control room packed with consoles and CRT monitors",
+      clothingPrompt: "a short-sleeved white shirt with a narrow tie and a mission badge"
+    },
+    {
+      id: "mock-rally",
+      title: "Rally Stage",
+      description: "A dusty gravel stage at a 1970s rally event.",
+      environmentPrompt: "a gravel rally stage with a vintage rally car kicking up dust",
+      clothingPrompt: "a racing jacket with embroidered sponsor patches"
+    }
+  ],
+  forensicVerification: [
+    {
+      feature: "Dial",
+      observation: "Pepsi bezel with yellow dial and 'Proof' text",
+      status: "Confirmed",
+      details: "Matches catalogued 6139-6002 variants from 1973."
+    },
+    {
+      feature: "Caseback",
+      observation: "Serial digits not visible in capture",
+      status: "Variation",
+      details: "Fixture data: no caseback shot was provided."
+    }
+  ],
+  associatedMovies: [
+    {
+      movieTitle: "Apollo 13",
+      characterName: "Mission Controller",
+      context: "Period-correct chronographs appear throughout the mission control scenes."
+    }
+  ],
+  sources: [
+    { title: "Fixture Entry", url: "https://example.com/chronoportal-fixture" }
+  ]
+};
+
+export const MOCK_MARKET: MarketAnalysis = {
+  currency: "USD",
+  currentMinPrice: 1200,
+  currentMaxPrice: 1800,
+  // A decade of points so every chart window can be checked offline.
+  priceHistory: [
+    { year: "2015", averagePrice: 620 },
+    { year: "2016", averagePrice: 640 },
+    { year: "2017", averagePrice: 700 },
+    { year: "2018", averagePrice: 760 },
+    { year: "2019", averagePrice: 810 },
+    { year: "2020", averagePrice: 790 },
+    { year: "2021", averagePrice: 980 },
+    { year: "2022", averagePrice: 1240 },
+    { year: "2023", averagePrice: 1150 },
+    { year: "2024", averagePrice: 1320 },
+    { year: "2025", averagePrice: 1500 }
+  ],
+  marketSentiment: "Bullish",
+  investmentRating: "A",
+  insight: "Fixture data: space-flown provenance keeps demand for clean 6139 examples rising."
+};
+
+/**
+ * Builds a deterministic SVG placeholder so image slots render without a network.
+ */
+export const createPlaceholderImage = (title: string, subtitle: string): string => {
+  const escape = (value: string) => value.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c] as string));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="720" height="1280" viewBox="0 0 720 1280">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#1e3a8a"/><stop offset="1" stop-color="#050505"/></linearGradient></defs>
+  <rect width="720" height="1280" fill="url(#g)"/>
+  <circle cx="360" cy="560" r="180" fill="none" stroke="#3b82f6" stroke-width="6"/>
+  <line x1="360" y1="560" x2="360" y2="440" stroke="#ffffff" stroke-width="8"/>
+  <line x1="360" y1="560" x2="450" y2="560" stroke="#ffffff" stroke-width="6"/>
+  <text x="360" y="860" fill="#ffffff" font-family="monospace" font-size="64" text-anchor="middle">${escape(title)}</text>
+  <text x="360" y="920" fill="#60a5fa" font-family="monospace" font-size="28" text-anchor="middle">${escape(subtitle)}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+const connectMockGuide = async (
+  eraInfo: string,
+  callbacks: LiveSessionCallbacks
+): Promise<TemporalGuideSession> => {
+  await delay(MOCK_LATENCY_MS);
+  const timer = setTimeout(() => {
+    callbacks.onTranscription(`Greetings, traveller. You have reached me from afar: ${eraInfo.slice(0, 80)}`, false);
+  }, MOCK_LATENCY_MS);
+
+  return {
+    sendAudio: () => {},
+    sendFrame: () => {},
+    close: () => clearTimeout(timer),
+  };
+};
+
+/**
+ * Offline fixture adapter. Returns canned data so the UI can be developed
+ * and demoed without network access or API quota.
+ */
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  vectorizeImage: async (base64Data: string) => {
+    await delay(MOCK_LATENCY_MS);
+    return base64Data;
+  },
+  identifyWatch: async (
+    _originalBase64: string,
+    _blueprintBase64?: string,
+    onPartial?: (partial: Partial<WatchInfo>) => void,
+    _dialCropBase64?: string,
+    shots: SupplementaryShot[] = []
+  ) => {
+    await delay(MOCK_LATENCY_MS);
+    onPartial?.({ modelName: MOCK_WATCH.modelName, releaseYear: MOCK_WATCH.releaseYear });
+    await delay(MOCK_LATENCY_MS);
+    const watch = structuredClone(MOCK_WATCH);
+    watch.forensicVerification[0].shot = 'dial';
+    if (shots.some(shot => shot.kind === 'caseback')) {
+      watch.casebackText = "6139-6002 340123 WATER 70M RESIST";
+      watch.forensicVerification[1] = {
+        feature: "Caseback",
+        observation: "Serial 340123 stamped beside the tsunami medallion",
+        status: "Confirmed",
+        details: "Fixture data: serial places production in April 1973.",
+        shot: 'caseback'
+      };
+    }
+    return watch;
+  },
+  transformEra: async (
+    _base64Image: string,
+    watch: WatchInfo,
+    persona: Persona | null,
+    customScenario?: MarketingScenario,
+    _skipWatermark?: boolean,
+    yearOverride?: string
+  ) => {
+    await delay(MOCK_LATENCY_MS);
+    const targetYear = yearOverride || persona?.customYear || watch.releaseYear;
+    const subtitle = customScenario?.title || watch.modelName.slice(0, 36);
+    return createPlaceholderImage(targetYear, persona ? `${subtitle} // ${persona.name}` : subtitle);
+  },
+  analyzeMarketValue: async () => {
+    await delay(MOCK_LATENCY_MS);
+    return structuredClone(MOCK_MARKET);
+  },
+  generateVintageAd: async (_base64Image: string, watch: WatchInfo, brief: MarketingScenario) => {
+    await delay(MOCK_LATENCY_MS);
+    return {
+      id: `ad-${brief.id}-${createHistoryId()}`,
+      year: watch.releaseYear,
+      headline: `${brief.title}. Precision You Can Count On.`,
+      description: `Fixture copy: the ${watch.modelName} keeps perfect time from the launch pad to the boardroom. See it at your local jeweler today.`,
+      imageUrl: createPlaceholderImage(watch.releaseYear, brief.title),
+    };
+  },
+  connectTemporalGuide: connectMockGuide,
+};
@@ -0,0 +1,119 @@
+import { drawCover, loadImage } from "./imageService";
+
+// --- MONTAGE PRESETS ---
+const FRAME_WIDTH = 720;
+const FRAME_HEIGHT = 1280;
+const FPS = 30;
+const HOLD_MS = 1400;
+const FADE_MS = 500;
+const MAX_MONTAGE_FRAMES = 8;
+
+export interface MontageFrame {
+  year: string;
+  image: string;
+}
+
+/**
+ * Picks the eras a montage walks through: the release year, each following
+ * decade, and the present. Long spans widen the step to stay within
+ * MAX_MONTAGE_FRAMES.
+ */
+export const getMontageYears = (releaseYear: string, currentYear: number = new Date().getFullYear()): string[] => {
+  const start = Number(releaseYear);
+  if (!Number.isFinite(start) || start >= currentYear) return [String(currentYear)];
+
+  const decades = Math.floor(currentYear / 10) - Math.floor(start / 10);
+  const step = 10 * Math.ceil((decades + 2) / MAX_MONTAGE_FRAMES);
+  const years = [start];
+  for (let year = Math.floor(start / step) * step + step; year < currentYear; year += step) {
+    years.push(year);
+  }
+  years.push(currentYear);
+  return years.map(String);
+};
+
+const pickMimeType = (): string => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+const drawYearLabel = (ctx: CanvasRenderingContext2D, year: string, alpha: number) => {
+  ctx.globalAlpha = alpha;
+  ctx.font = `bold 96px "JetBrains Mono", monospace`;
+  ctx.textAlign = 'left';
+  const width = ctx.measureText(year).width + 48;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+  ctx.fillRect(32, FRAME_HEIGHT - 200, width, 128);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText(year, 56, FRAME_HEIGHT - 100);
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * Records the frames into a WebM clip, holding each era and cross-fading to
+ * the next. Playback happens in real time, so this takes as long as the clip.
+ */
+export const createDecadeMontage = async (frames: MontageFrame[]): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error("Video recording is not supported in this browser.");
+  }
+  if (frames.length === 0) throw new Error("No frames to record.");
+
+  const images = await Promise.all(frames.map(frame => loadImage(frame.image)));
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = FRAME_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable for montage export.");
+
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(canvas.captureStream(FPS), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const slotMs = HOLD_MS + FADE_MS;
+  const totalMs = slotMs * frames.length;
+
+  const render = (elapsed: number) => {
+    const index = Math.min(frames.length - 1, Math.floor(elapsed / slotMs));
+    const intoSlot = elapsed - index * slotMs;
+    const next = index + 1 < frames.length ? index + 1 : null;
+    const fade = next !== null && intoSlot > HOLD_MS ? (intoSlot - HOLD_MS) / FADE_MS : 0;
+
+    ctx.globalAlpha = 1;
+    drawCover(ctx, images[index], 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+    if (next !== null && fade > 0) {
+      ctx.globalAlpha = fade;
+      drawCover(ctx, images[next], 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+    }
+    drawYearLabel(ctx, frames[index].year, 1 - fade);
+    if (next !== null && fade > 0) drawYearLabel(ctx, frames[next].year, fade);
+
+    ctx.font = `bold 24px "JetBrains Mono", monospace`;
+    ctx.textAlign = 'right';
+    ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+    ctx.fillText("#chronoportalpowerbygemini", FRAME_WIDTH - 24, FRAME_HEIGHT - 24);
+  };
+
+  // Paint the first frame before recording so the clip never opens on black.
+  render(0);
+  recorder.start();
+  const start = performance.now();
+
+  await new Promise<void>(resolve => {
+    const tick = () => {
+      const elapsed = performance.now() - start;
+      render(Math.min(elapsed, totalMs - 1));
+      if (elapsed >= totalMs) resolve();
+      else requestAnimationFrame(tick);
+    };
+    requestAnimationFrame(tick);
+  });
+
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+};
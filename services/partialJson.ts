@@ -0,0 +1,62 @@
+// Upper bound on how many trailing fragments we trim before giving up.
+const MAX_REPAIR_ATTEMPTS = 20;
+
+interface ScanState {
+  inString: boolean;
+  escaped: boolean;
+  closers: string[];
+}
+
+const scan = (text: string): ScanState => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') closers.pop();
+  }
+  return { inString, escaped, closers };
+};
+
+/**
+ * Best-effort parse of a JSON document that is still streaming in. Open
+ * strings and containers are closed, and dangling keys or half-written
+ * values are trimmed until the remainder parses. Returns null when nothing
+ * usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to repair.
+  }
+
+  let candidate = text;
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && candidate.length > 0; attempt++) {
+    const state = scan(candidate);
+    let repaired = candidate;
+    if (state.inString) {
+      if (state.escaped) repaired = repaired.slice(0, -1);
+      repaired += '"';
+    }
+    repaired = repaired.replace(/[\s,:]+$/, '') + state.closers.reverse().join('');
+
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      const idx = Math.max(candidate.lastIndexOf(','), candidate.lastIndexOf('{'), candidate.lastIndexOf('['));
+      if (idx <= 0) return null;
+      const next = candidate[idx] === ',' ? candidate.slice(0, idx) : candidate.slice(0, idx + 1);
+      candidate = next.length < candidate.length ? next : candidate.slice(0, idx);
+    }
+  }
+  return null;
+};
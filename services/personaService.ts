@@ -0,0 +1,74 @@
+import { AgeBracket, Persona } from "../types";
+import { createHistoryId } from "./historyService";
+
+const PERSONAS_KEY = 'chronoportal.personas';
+const ACTIVE_PERSONA_KEY = 'chronoportal.activePersona';
+// Selfies are stored inline, so keep the set small enough for localStorage.
+export const MAX_PERSONAS = 8;
+
+// --- PERSONA PRESETS ---
+export const AGE_BRACKETS: { id: AgeBracket; label: string; prompt: string }[] = [
+  { id: 'teen', label: 'Teen', prompt: 'a teenager' },
+  { id: 'twenties', label: '20s', prompt: 'a person in their twenties' },
+  { id: 'thirties', label: '30s', prompt: 'a person in their thirties' },
+  { id: 'forties', label: '40s', prompt: 'a person in their forties' },
+  { id: 'fifties', label: '50s', prompt: 'a person in their fifties' },
+  { id: 'sixties-plus', label: '60+', prompt: 'a person in their sixties or older' },
+];
+
+export const PERSONA_REGIONS: { id: string; label: string; prompt: string }[] = [
+  { id: 'north-america', label: 'North America', prompt: 'North America (United States or Canada)' },
+  { id: 'latin-america', label: 'Latin America', prompt: 'Latin America' },
+  { id: 'uk-ireland', label: 'UK & Ireland', prompt: 'the United Kingdom or Ireland' },
+  { id: 'western-europe', label: 'Western Europe', prompt: 'Western Europe' },
+  { id: 'nordics', label: 'Nordics', prompt: 'Scandinavia' },
+  { id: 'eastern-europe', label: 'Eastern Europe', prompt: 'Eastern Europe' },
+  { id: 'middle-east', label: 'Middle East', prompt: 'the Middle East' },
+  { id: 'africa', label: 'Africa', prompt: 'Africa' },
+  { id: 'south-asia', label: 'South Asia', prompt: 'South Asia' },
+  { id: 'east-asia', label: 'East Asia', prompt: 'East Asia' },
+  { id: 'southeast-asia', label: 'Southeast Asia', prompt: 'Southeast Asia' },
+  { id: 'oceania', label: 'Oceania', prompt: 'Australia or New Zealand' },
+];
+
+export const findAgeBracket = (id: AgeBracket) => AGE_BRACKETS.find(bracket => bracket.id === id) || AGE_BRACKETS[1];
+
+export const findRegion = (id: string) => PERSONA_REGIONS.find(region => region.id === id) || PERSONA_REGIONS[0];
+
+export const createPersona = (name: string): Persona => ({
+  id: createHistoryId(),
+  name,
+  ageBracket: 'thirties',
+  region: PERSONA_REGIONS[0].id,
+  styleNotes: '',
+});
+
+export const loadPersonas = (): Persona[] => {
+  try {
+    const raw = localStorage.getItem(PERSONAS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persists the persona list. Returns false when storage is full (usually a
+ * large selfie) so the caller can tell the user instead of losing edits silently.
+ */
+export const savePersonas = (personas: Persona[]): boolean => {
+  try {
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas.slice(0, MAX_PERSONAS)));
+    return true;
+  } catch (err) {
+    console.warn("Persona write failed", err);
+    return false;
+  }
+};
+
+export const loadActivePersonaId = (): string | null => localStorage.getItem(ACTIVE_PERSONA_KEY);
+
+export const saveActivePersonaId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_PERSONA_KEY, id);
+  else localStorage.removeItem(ACTIVE_PERSONA_KEY);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getBrand, summarizePortfolio } from './portfolioService';
+import { summarizeCollection } from './collectionService';
+import { CollectionEntry, MarketAnalysis } from '../types';
+
+const market = (currency: string, currentMinPrice: number, currentMaxPrice: number): MarketAnalysis => ({
+  currency,
+  currentMinPrice,
+  currentMaxPrice,
+  priceHistory: [],
+  marketSentiment: 'Stable',
+  investmentRating: 'B',
+  insight: '',
+});
+
+const entry = (modelName: string, fields: Partial<CollectionEntry>): CollectionEntry => ({
+  modelName,
+  releaseYear: '1970',
+  condition: 'Good',
+  serviceHistory: [],
+  notes: '',
+  scanIds: [],
+  addedAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+const ENTRIES = [
+  entry('Seiko 6139-6002', { purchasePrice: 800, purchaseCurrency: 'USD', market: market('USD', 1200, 1800) }),
+  entry('Omega Speedmaster', { purchasePrice: 4000, purchaseCurrency: 'EUR', market: market('EUR', 4600, 5520) }),
+  entry('Rolex Submariner', { purchasePrice: 9000 }),
+  entry('Heuer Carrera', { market: market('XXX', 3000, 4000) }),
+];
+
+describe('summarizePortfolio', () => {
+  it('reports the same totals as the collection view', () => {
+    const summary = summarizePortfolio(ENTRIES, 'USD');
+    expect(summary).toMatchObject(summarizeCollection(ENTRIES, 'USD'));
+    expect(summary.valued).toBe(2);
+    expect(summary.valueMin).toBeCloseTo(6200);
+  });
+
+  it('measures gain only on pieces with a price paid and a market value', () => {
+    const summary = summarizePortfolio(ENTRIES, 'USD');
+    const paid = 800 + 4000 / 0.92;
+    expect(summary.gain).toBeCloseTo(1500 + 5500 - paid);
+  });
+
+  it('keys brands by their full multi-word name', () => {
+    expect(getBrand('Grand Seiko SBGA211')).toBe('Grand Seiko');
+    expect(getBrand('Seiko 6139')).toBe('Seiko');
+  });
+});
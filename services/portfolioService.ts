@@ -0,0 +1,117 @@
+import { CollectionEntry } from "../types";
+import { CollectionTotals, estimateValue, marketRange, purchaseCost, summarizeCollection } from "./collectionService";
+import { convertAmount, loadDisplayCurrency } from "./currencyService";
+
+// --- PORTFOLIO PRESETS ---
+// Brands whose names span several words; anything else is keyed by its first word.
+const MULTI_WORD_BRANDS = [
+  'Grand Seiko', 'King Seiko', 'TAG Heuer', 'Patek Philippe', 'Audemars Piguet', 'Vacheron Constantin',
+  'A. Lange & Söhne', 'Jaeger-LeCoultre', 'Girard-Perregaux', 'Baume & Mercier', 'Frederique Constant',
+  'Glashütte Original', 'Universal Genève', 'Ulysse Nardin', 'Van Cleef & Arpels',
+];
+
+export interface AllocationSlice {
+  label: string;
+  value: number;
+  // 0-1 of the priced total
+  share: number;
+  count: number;
+}
+
+// The collection totals plus the breakdowns only the dashboard shows.
+export interface PortfolioSummary extends CollectionTotals {
+  valueMid: number;
+  // Gain is only measured on pieces with both a price paid and a market value.
+  gain: number | null;
+  gainPercent: number | null;
+  byBrand: AllocationSlice[];
+  byDecade: AllocationSlice[];
+  history: { year: string; value: number }[];
+}
+
+export const getBrand = (modelName: string): string => {
+  const lower = modelName.toLowerCase();
+  const multi = MULTI_WORD_BRANDS.find(brand => lower.startsWith(brand.toLowerCase()));
+  if (multi) return multi;
+  return modelName.trim().split(/\s+/)[0] || 'Unknown';
+};
+
+export const getDecade = (releaseYear: string): string => {
+  const year = parseInt(releaseYear, 10);
+  return Number.isFinite(year) ? `${Math.floor(year / 10) * 10}s` : 'Unknown';
+};
+
+const allocate = (entries: CollectionEntry[], keyOf: (entry: CollectionEntry) => string, total: number, currency: string): AllocationSlice[] => {
+  const slices: Record<string, AllocationSlice> = {};
+  for (const entry of entries) {
+    const value = estimateValue(entry, currency);
+    if (value === null) continue;
+    const label = keyOf(entry);
+    slices[label] = slices[label] || { label, value: 0, share: 0, count: 0 };
+    slices[label].value += value;
+    slices[label].count++;
+  }
+  return Object.values(slices)
+    .map(slice => ({ ...slice, share: total > 0 ? slice.value / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+// A watch's price history in `currency`; empty when its quote can't be converted.
+const convertedHistory = (entry: CollectionEntry, currency: string): { year: string; averagePrice: number }[] => {
+  const market = entry.market;
+  if (!market || convertAmount(1, market.currency, currency) === null) return [];
+  return market.priceHistory
+    .map(point => ({ year: point.year, averagePrice: convertAmount(point.averagePrice, market.currency, currency) as number }))
+    .sort((a, b) => a.year.localeCompare(b.year));
+};
+
+/**
+ * Sums each priced watch's history into one series. Between a watch's data
+ * points its last known price carries forward, and before its first point
+ * that first price is assumed, so the total doesn't jump when a watch's
+ * history begins.
+ */
+export const combinePriceHistory = (entries: CollectionEntry[], currency: string = loadDisplayCurrency()): { year: string; value: number }[] => {
+  const series = entries
+    .map(entry => convertedHistory(entry, currency))
+    .filter(points => points.length > 0);
+  const years = Array.from(new Set(series.flatMap(points => points.map(p => p.year)))).sort();
+
+  return years.map(year => ({
+    year,
+    value: series.reduce((sum, points) => {
+      const known = points.filter(p => p.year <= year);
+      return sum + (known.length ? known[known.length - 1].averagePrice : points[0].averagePrice);
+    }, 0),
+  }));
+};
+
+/**
+ * Extends the collection totals with gain, allocation and history. Watches
+ * quoted in a currency missing from the rate table count as unpriced.
+ */
+export const summarizePortfolio = (entries: CollectionEntry[], currency: string = loadDisplayCurrency()): PortfolioSummary => {
+  const totals = summarizeCollection(entries, currency);
+  let matchedCost = 0;
+  let matchedValue = 0;
+
+  for (const entry of entries) {
+    const cost = purchaseCost(entry, currency);
+    const range = marketRange(entry, currency);
+    if (cost === null || !range) continue;
+    matchedCost += cost;
+    matchedValue += (range.min + range.max) / 2;
+  }
+
+  const valueMid = (totals.valueMin + totals.valueMax) / 2;
+  const hasGain = matchedCost > 0;
+  return {
+    ...totals,
+    valueMid,
+    gain: hasGain ? matchedValue - matchedCost : null,
+    gainPercent: hasGain ? ((matchedValue - matchedCost) / matchedCost) * 100 : null,
+    byBrand: allocate(entries, entry => getBrand(entry.modelName), valueMid, currency),
+    byDecade: allocate(entries, entry => getDecade(entry.releaseYear), valueMid, currency),
+    history: combinePriceHistory(entries, currency),
+  };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { SerialDecoding, buildSerialPoint, crossCheckSerial, decodeSerial } from './serialDecoder';
+import { WatchInfo } from '../types';
+
+const CURRENT_YEAR = 2026;
+
+const watchOf = (modelName: string, releaseYear: string): WatchInfo => ({
+  modelName,
+  releaseYear,
+  eraContext: '',
+  clothingDescription: '',
+  environmentDescription: '',
+  historicalFunFact: '',
+  marketingScenarios: [],
+  forensicVerification: [],
+  associatedMovies: [],
+});
+
+describe('decodeSerial: Seiko', () => {
+  it('reads the year digit and lists every decade it could belong to', () => {
+    const decoding = decodeSerial('6139-6002 340123 WATER 70M RESIST', 'Seiko 6139-6002', CURRENT_YEAR);
+    expect(decoding?.serial).toBe('340123');
+    expect(decoding?.candidateYears).toEqual([1963, 1973, 1983, 1993, 2003, 2013, 2023]);
+    expect(decoding?.method).toContain('April');
+  });
+
+  it('reads O, N and D as October to December', () => {
+    expect(decodeSerial('4O1234', 'Seiko', CURRENT_YEAR)?.method).toContain('October');
+    expect(decodeSerial('4N1234', 'Seiko', CURRENT_YEAR)?.method).toContain('November');
+    expect(decodeSerial('4D1234', 'Seiko', CURRENT_YEAR)?.method).toContain('December');
+  });
+
+  it('treats an OCR zero in the month position as October', () => {
+    expect(decodeSerial('401234', 'Seiko', CURRENT_YEAR)?.method).toContain('October');
+  });
+
+  it('returns null for text without a serial', () => {
+    expect(decodeSerial('STAINLESS STEEL', 'Seiko', CURRENT_YEAR)).toBeNull();
+  });
+});
+
+describe('decodeSerial: Rolex', () => {
+  it('looks numeric serials up in the production table', () => {
+    const decoding = decodeSerial('2426800', 'Rolex Submariner 5513', CURRENT_YEAR);
+    expect(decoding).toMatchObject({ fromYear: 1969, toYear: 1969 });
+  });
+
+  it('dates letter-prefixed serials', () => {
+    expect(decodeSerial('R123456', 'Rolex', CURRENT_YEAR)).toMatchObject({ fromYear: 1987, toYear: 1988 });
+  });
+
+  it('dates scrambled serials only to 2010 onward', () => {
+    expect(decodeSerial('8K3L92Z1', 'Rolex', CURRENT_YEAR)).toMatchObject({ fromYear: 2010, toYear: CURRENT_YEAR });
+  });
+
+  it('skips a reference number named in the model', () => {
+    const decoding = decodeSerial('226570 2426800', 'Rolex Explorer II 226570', CURRENT_YEAR);
+    expect(decoding?.serial).toBe('2426800');
+  });
+});
+
+describe('decodeSerial: Omega', () => {
+  it('looks movement serials up in the production table', () => {
+    const decoding = decodeSerial('29123456', 'Omega Speedmaster 145.022', CURRENT_YEAR);
+    expect(decoding).toMatchObject({ serial: '29123456', fromYear: 1969, toYear: 1969 });
+  });
+
+  it('ignores serials below the first table entry', () => {
+    expect(decodeSerial('0999999', 'Omega', CURRENT_YEAR)).toBeNull();
+  });
+});
+
+describe('crossCheckSerial', () => {
+  const rolex = (fromYear: number, toYear: number): SerialDecoding =>
+    ({ brand: 'Rolex', serial: 'X', fromYear, toYear, method: 'Test.' });
+
+  it('confirms a range consistent with the release', () => {
+    expect(crossCheckSerial(rolex(1969, 1969), '1966').status).toBe('Confirmed');
+  });
+
+  it('flags a piece made before its reference existed', () => {
+    const point = crossCheckSerial(rolex(1987, 1988), '1995');
+    expect(point.status).toBe('Discrepancy');
+    expect(point.details).toContain('Predates');
+  });
+
+  it('flags a piece made long after the release', () => {
+    const point = crossCheckSerial(rolex(1969, 1969), '1930');
+    expect(point.status).toBe('Discrepancy');
+    expect(point.details).toContain('30 years after');
+  });
+
+  it('reports a missing release year as a variation', () => {
+    expect(crossCheckSerial(rolex(1969, 1969), 'unknown').status).toBe('Variation');
+  });
+
+  it('never confirms a Seiko year, since the decade is not encoded', () => {
+    const decoding = decodeSerial('340123', 'Seiko 6139-6002', CURRENT_YEAR)!;
+    const point = crossCheckSerial(decoding, '1969');
+    expect(point.status).toBe('Variation');
+    expect(point.observation).toContain('1973 or 1983 or 1993');
+  });
+
+  it('flags a Seiko year digit that fits no decade of production', () => {
+    const decoding = decodeSerial('881234', 'Seiko', CURRENT_YEAR)!;
+    expect(crossCheckSerial(decoding, '2020').status).toBe('Discrepancy');
+  });
+});
+
+describe('buildSerialPoint', () => {
+  it('reports text that matches no serial format', () => {
+    const point = buildSerialPoint(watchOf('Rolex Submariner 5513', '1962'), 'ORIGINAL');
+    expect(point?.status).toBe('Variation');
+    expect(point?.observation).toContain('does not match');
+  });
+
+  it('skips brands without a decoder', () => {
+    expect(buildSerialPoint(watchOf('Timex Marlin', '1965'), '123456')).toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+import { ForensicPoint, WatchInfo } from "../types";
+
+// --- DECODER PRESETS ---
+export const SERIAL_FEATURE = 'Serial Decode';
+// Pieces are routinely cased the year before a reference is announced.
+const PRE_RELEASE_TOLERANCE = 1;
+// Long-running references (Submariner 5513, Speedmaster 145.022) stayed in production for decades.
+const MAX_PRODUCTION_SPAN = 30;
+const EARLIEST_SEIKO_YEAR = 1960;
+
+export type SerialBrand = 'Seiko' | 'Omega' | 'Rolex';
+
+export interface SerialDecoding {
+  brand: SerialBrand;
+  serial: string;
+  fromYear: number;
+  toYear: number;
+  // Set when the serial fixes the year only within a decade (Seiko); every year it could be.
+  candidateYears?: number[];
+  // How the range was derived; shown as the forensic point's details.
+  method: string;
+}
+
+// Published start-of-year case serials, 1957-1987. Earlier serials restarted in 1954 and overlap these.
+const ROLEX_NUMERIC_SERIALS: [number, number][] = [
+  [1957, 224000], [1958, 328000], [1959, 399453], [1960, 516000], [1961, 687000],
+  [1962, 824000], [1963, 1008000], [1964, 1100000], [1965, 1200000], [1966, 1538435],
+  [1967, 1752000], [1968, 2164000], [1969, 2426800], [1970, 2689760], [1971, 2952000],
+  [1972, 3215000], [1973, 3478000], [1974, 3741000], [1975, 4002000], [1976, 4266000],
+  [1977, 5008000], [1978, 5482000], [1979, 5958000], [1980, 6432000], [1981, 6910000],
+  [1982, 7386000], [1983, 7860000], [1984, 8338000], [1985, 8814000], [1986, 9290000],
+  [1987, 9766000],
+];
+
+// Letter-prefixed serials, late 1987 until the switch to random serials in 2010.
+const ROLEX_LETTER_SERIALS: Record<string, [number, number]> = {
+  R: [1987, 1988], L: [1988, 1989], E: [1990, 1991], X: [1991, 1991], N: [1991, 1991],
+  C: [1992, 1993], S: [1993, 1994], W: [1994, 1995], T: [1996, 1996], U: [1997, 1997],
+  A: [1998, 1999], P: [2000, 2000], K: [2001, 2001], Y: [2002, 2002], F: [2003, 2005],
+  D: [2005, 2005], Z: [2006, 2006], M: [2007, 2008], V: [2008, 2009], G: [2010, 2010],
+};
+const ROLEX_RANDOM_SERIAL_YEAR = 2010;
+
+// Movement serial milestones by year. Omega serials date the movement, not the case.
+const OMEGA_MOVEMENT_SERIALS: [number, number][] = [
+  [1895, 1000000], [1902, 2000000], [1908, 3000000], [1912, 4000000], [1916, 5000000],
+  [1923, 6000000], [1929, 7000000], [1935, 8000000], [1939, 9000000], [1944, 10000000],
+  [1947, 11000000], [1950, 12000000], [1952, 13000000], [1954, 14000000], [1956, 15000000],
+  [1958, 16000000], [1959, 17000000], [1961, 19000000], [1962, 20000000], [1963, 21000000],
+  [1964, 22000000], [1965, 23000000], [1966, 24000000], [1967, 25000000], [1968, 26000000],
+  [1969, 29000000], [1970, 30000000], [1971, 32000000], [1972, 33000000], [1973, 34000000],
+  [1974, 35000000], [1975, 37000000], [1976, 38000000], [1977, 39000000], [1978, 40000000],
+  [1979, 41000000], [1980, 42000000], [1981, 44000000], [1982, 45000000], [1983, 46000000],
+  [1984, 47000000], [1985, 48000000], [1987, 50000000],
+];
+
+// Seiko marks October-December with O, N and D; OCR often reads the O as a zero.
+const SEIKO_MONTHS: Record<string, number> = {
+  '1': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
+  'O': 10, '0': 10, 'N': 11, 'D': 12,
+};
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export const parseYear = (text: string): number | null => {
+  const match = text.match(/(?<!\d)(1[89]\d{2}|20\d{2})(?!\d)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+export const detectSerialBrand = (text: string): SerialBrand | null => {
+  const lower = text.toLowerCase();
+  if (lower.includes('seiko')) return 'Seiko';
+  if (lower.includes('omega')) return 'Omega';
+  if (lower.includes('rolex')) return 'Rolex';
+  return null;
+};
+
+// Caseback text is mostly engraving boilerplate; serials are the alphanumeric tokens.
+const tokenize = (text: string) => text.toUpperCase().replace(/[^0-9A-Z]+/g, ' ').trim().split(' ').filter(Boolean);
+
+// Finds the table row whose serial range contains `serial`; the last row is open-ended.
+const lookupTable = (table: [number, number][], serial: number): { fromYear: number; toYear: number } | null => {
+  if (serial < table[0][1]) return null;
+  for (let i = table.length - 1; i >= 0; i--) {
+    if (serial >= table[i][1]) {
+      const nextYear = table[i + 1]?.[0];
+      return { fromYear: table[i][0], toYear: nextYear ? Math.max(table[i][0], nextYear - 1) : table[i][0] + 1 };
+    }
+  }
+  return null;
+};
+
+/**
+ * Seiko serials lead with the last digit of the year and a month character.
+ * The decade is not encoded, so every matching year since Seiko began
+ * numbering this way is returned as a candidate.
+ */
+const decodeSeiko = (tokens: string[], currentYear: number): SerialDecoding | null => {
+  const serial = tokens.find(token => /^[0-9][1-9OND0][0-9]{4,5}$/.test(token));
+  if (!serial) return null;
+  const yearDigit = parseInt(serial[0], 10);
+  const month = SEIKO_MONTHS[serial[1]];
+
+  const candidates: number[] = [];
+  for (let year = EARLIEST_SEIKO_YEAR; year <= currentYear; year++) {
+    if (year % 10 === yearDigit) candidates.push(year);
+  }
+  if (candidates.length === 0) return null;
+
+  return {
+    brand: 'Seiko',
+    serial,
+    fromYear: candidates[0],
+    toYear: candidates[candidates.length - 1],
+    candidateYears: candidates,
+    method: `Year digit ${yearDigit}, month ${serial[1]} (${MONTH_NAMES[month - 1]}); the decade is not encoded.`,
+  };
+};
+
+const decodeRolex = (tokens: string[], currentYear: number): SerialDecoding | null => {
+  for (const token of tokens) {
+    const letter = token.match(/^([A-Z])([0-9]{6})$/);
+    if (letter && ROLEX_LETTER_SERIALS[letter[1]]) {
+      const [fromYear, toYear] = ROLEX_LETTER_SERIALS[letter[1]];
+      return { brand: 'Rolex', serial: token, fromYear, toYear, method: `Letter prefix ${letter[1]} in the 1987-2010 serial sequence.` };
+    }
+    if (/^[0-9]{6,7}$/.test(token)) {
+      const range = lookupTable(ROLEX_NUMERIC_SERIALS, parseInt(token, 10));
+      if (range) return { brand: 'Rolex', serial: token, ...range, method: 'Numeric case serial against the published production table.' };
+    }
+    // Since 2010 serials are eight scrambled characters that carry no date.
+    if (/^[0-9A-Z]{8}$/.test(token) && /[A-Z]/.test(token) && /[0-9]/.test(token)) {
+      return { brand: 'Rolex', serial: token, fromYear: ROLEX_RANDOM_SERIAL_YEAR, toYear: currentYear, method: 'Scrambled serial, issued from 2010 onward.' };
+    }
+  }
+  return null;
+};
+
+const decodeOmega = (tokens: string[]): SerialDecoding | null => {
+  for (const token of tokens) {
+    if (!/^[0-9]{7,8}$/.test(token)) continue;
+    const range = lookupTable(OMEGA_MOVEMENT_SERIALS, parseInt(token, 10));
+    if (range) return { brand: 'Omega', serial: token, ...range, method: 'Movement serial against the published production table.' };
+  }
+  return null;
+};
+
+/**
+ * Decodes a production date range from caseback or movement text. `brandHint`
+ * is usually the identified model name; the text itself is checked too.
+ * Returns null for unsupported brands or when no serial matches the brand's format.
+ */
+export const decodeSerial = (
+  text: string,
+  brandHint: string = '',
+  currentYear: number = new Date().getFullYear()
+): SerialDecoding | null => {
+  const brand = detectSerialBrand(brandHint) || detectSerialBrand(text);
+  // Reference numbers (e.g. Rolex 226570) look like serials; skip any already named in the hint.
+  const reference = new Set(tokenize(brandHint));
+  const tokens = tokenize(text).filter(token => !reference.has(token));
+  switch (brand) {
+    case 'Seiko': return decodeSeiko(tokens, currentYear);
+    case 'Rolex': return decodeRolex(tokens, currentYear);
+    case 'Omega': return decodeOmega(tokens);
+    default: return null;
+  }
+};
+
+const formatRange = (decoding: SerialDecoding) =>
+  decoding.fromYear === decoding.toYear ? `${decoding.fromYear}` : `${decoding.fromYear}-${decoding.toYear}`;
+
+// Years a piece of a reference released in `release` could plausibly have been made.
+const fitsRelease = (year: number, release: number) =>
+  year >= release - PRE_RELEASE_TOLERANCE && year <= release + MAX_PRODUCTION_SPAN;
+
+/**
+ * Compares a decoded range with the reference's release year. A piece made
+ * well before its reference existed, or decades after, is a discrepancy.
+ * Serials that only fix the year within a decade are never Confirmed: the
+ * decade would have to be guessed from the same release year being checked.
+ */
+export const crossCheckSerial = (decoding: SerialDecoding, releaseYear: string): ForensicPoint => {
+  const release = parseYear(releaseYear);
+  const observation = `${decoding.brand} serial ${decoding.serial} dates production to ${formatRange(decoding)}`;
+  if (release === null) {
+    return { feature: SERIAL_FEATURE, observation, status: 'Variation', details: `${decoding.method} No release year to compare against.`, shot: 'caseback' };
+  }
+  if (decoding.candidateYears) {
+    const fitting = decoding.candidateYears.filter(year => fitsRelease(year, release));
+    const candidateObservation = `${decoding.brand} serial ${decoding.serial} dates production to ${(fitting.length ? fitting : decoding.candidateYears).join(' or ')}`;
+    if (fitting.length === 0) {
+      return { feature: SERIAL_FEATURE, observation: candidateObservation, status: 'Discrepancy', details: `${decoding.method} No possible year fits the ${release} release of this reference.`, shot: 'caseback' };
+    }
+    return { feature: SERIAL_FEATURE, observation: candidateObservation, status: 'Variation', details: `${decoding.method} Only these years fit the ${release} release; the serial alone can't tell them apart.`, shot: 'caseback' };
+  }
+  if (decoding.toYear < release - PRE_RELEASE_TOLERANCE) {
+    return { feature: SERIAL_FEATURE, observation, status: 'Discrepancy', details: `${decoding.method} Predates the ${release} release of this reference.`, shot: 'caseback' };
+  }
+  if (decoding.fromYear > release + MAX_PRODUCTION_SPAN) {
+    return { feature: SERIAL_FEATURE, observation, status: 'Discrepancy', details: `${decoding.method} Over ${MAX_PRODUCTION_SPAN} years after the ${release} release of this reference.`, shot: 'caseback' };
+  }
+  return { feature: SERIAL_FEATURE, observation, status: 'Confirmed', details: `${decoding.method} Consistent with the ${release} release.`, shot: 'caseback' };
+};
+
+/**
+ * Builds the deterministic serial check for a watch, or null when the brand
+ * has no decoder. Text that doesn't match the brand's format is reported as
+ * a Variation so a mistyped serial is visible rather than silently ignored.
+ */
+export const buildSerialPoint = (watch: WatchInfo, text: string): ForensicPoint | null => {
+  const brand = detectSerialBrand(watch.modelName) || detectSerialBrand(text);
+  if (!brand || !text.trim()) return null;
+  const decoding = decodeSerial(text, watch.modelName);
+  if (!decoding) {
+    return {
+      feature: SERIAL_FEATURE,
+      observation: `"${text.trim()}" does not match a ${brand} serial format`,
+      status: 'Variation',
+      details: 'Check the caseback for a clearer reading of the serial.',
+      shot: 'caseback',
+    };
+  }
+  return crossCheckSerial(decoding, watch.releaseYear);
+};
+
+/**
+ * Returns the watch with its serial check replaced by one decoded from `text`.
+ */
+export const applySerialCheck = (watch: WatchInfo, text: string): WatchInfo => {
+  const point = buildSerialPoint(watch, text);
+  const others = watch.forensicVerification.filter(p => p.feature !== SERIAL_FEATURE);
+  return {
+    ...watch,
+    casebackText: text.trim() || undefined,
+    forensicVerification: point ? [point, ...others] : others,
+  };
+};
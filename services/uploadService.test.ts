@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { readExifOrientation } from './uploadService';
+
+const toBuffer = (bytes: number[]): ArrayBuffer => {
+  const buffer = new ArrayBuffer(bytes.length);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+};
+
+// A JPEG start plus an APP1 EXIF segment whose first IFD entry is the orientation tag.
+const exifJpeg = (orientation: number): number[] => [
+  0xff, 0xd8,
+  0xff, 0xe1, 0x00, 0x22,
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+];
+
+describe('readExifOrientation', () => {
+  it('reads the orientation tag', () => {
+    expect(readExifOrientation(toBuffer(exifJpeg(6)))).toBe(6);
+  });
+
+  it('returns 1 for non-JPEG data', () => {
+    expect(readExifOrientation(toBuffer([0x89, 0x50, 0x4e, 0x47]))).toBe(1);
+  });
+
+  it('returns 1 for a file cut off inside the EXIF header', () => {
+    for (let length = 4; length < 24; length++) {
+      expect(readExifOrientation(toBuffer(exifJpeg(6).slice(0, length)))).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+// --- UPLOAD PRESETS ---
+// Matches what the camera path sends: enough detail for dial text, small enough for the uplink.
+const MAX_UPLOAD_EDGE = 2048;
+const UPLOAD_QUALITY = 0.9;
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+// A 2x1 JPEG tagged with orientation 6: a browser that honours EXIF decodes it as 1x2.
+const ORIENTATION_PROBE = 'data:image/jpeg;base64,/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wCEAFA3PEY8MlBGQUZaVVBfeMiCeG5uePWvuZHI//////////////////////////////////////////////////8BVVpaeGl464KC6//////////////////////////////////////////////////////////////////////////AABEIAAEAAgMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/ALtAH//Z';
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+/**
+ * Reads the EXIF orientation (1-8) from a JPEG. Returns 1 when the file is not
+ * a JPEG, carries no orientation tag, or is truncated mid-header.
+ */
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  try {
+    return scanExifOrientation(new DataView(buffer));
+  } catch (err) {
+    // DataView reads past the end throw RangeError; a cut-off header just means no rotation.
+    if (err instanceof RangeError) return 1;
+    throw err;
+  }
+};
+
+const scanExifOrientation = (view: DataView): number => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    // Image data starts at SOS; no EXIF past this point.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+// Canvas transforms for EXIF orientations 2-8 (1 needs none).
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, w: number, h: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+};
+
+let exifAppliedByBrowser: Promise<boolean> | null = null;
+
+/**
+ * Whether plain <img> decoding already rotates by EXIF. Probed once; a
+ * detached element has no computed style, so `image-orientation` can't be
+ * used to switch the rotation off.
+ */
+const browserAppliesExif = (): Promise<boolean> => {
+  if (!exifAppliedByBrowser) {
+    exifAppliedByBrowser = new Promise(resolve => {
+      const probe = new Image();
+      probe.onload = () => resolve(probe.naturalWidth === 1 && probe.naturalHeight === 2);
+      probe.onerror = () => resolve(false);
+      probe.src = ORIENTATION_PROBE;
+    });
+  }
+  return exifAppliedByBrowser;
+};
+
+const decodeWithOrientation = async (file: File): Promise<{ source: CanvasImageSource; width: number; height: number; orientation: number }> => {
+  // createImageBitmap applies EXIF rotation itself when asked to.
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, orientation: 1 };
+    } catch {
+      // Fall back to manual decoding below.
+    }
+  }
+
+  // Where the browser rotates on decode, the image and its natural size are already upright.
+  const orientation = (await browserAppliesExif()) ? 1 : readExifOrientation(await file.arrayBuffer());
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.onload = () => resolve(el);
+      el.onerror = () => reject(new Error(`Unable to decode ${file.name}.`));
+      el.src = url;
+    });
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientation };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Turns an uploaded photo into the same raw-base64 JPEG the camera produces:
+ * upright per its EXIF orientation and downscaled to MAX_UPLOAD_EDGE.
+ */
+export const readImageFile = async (file: File, maxEdge: number = MAX_UPLOAD_EDGE): Promise<string> => {
+  if (!isImageFile(file)) throw new Error(`${file.name} is not an image.`);
+
+  const { source, width, height, orientation } = await decodeWithOrientation(file);
+  const swapsAxes = orientation >= 5;
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  const drawW = Math.round(width * scale);
+  const drawH = Math.round(height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsAxes ? drawH : drawW;
+  canvas.height = swapsAxes ? drawW : drawH;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas unavailable for upload.");
+
+  applyOrientation(ctx, orientation, drawW, drawH);
+  ctx.drawImage(source, 0, 0, drawW, drawH);
+  if ('close' in source) source.close();
+
+  return canvas.toDataURL('image/jpeg', UPLOAD_QUALITY).split(',')[1];
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeYear, validateMarketAnalysis, validateWatchInfo } from './validation';
+import { SchemaValidationError } from './errors';
+import { UNKNOWN_CURRENCY, convertAmount } from './currencyService';
+
+// --- FIXTURES ---
+const WATCH_PAYLOAD = {
+  modelName: 'Seiko 6139-6002 Pogue',
+  releaseYear: '1969',
+  eraContext: 'The space race is at its height.',
+  clothingDescription: 'wide-collared shirt',
+  environmentDescription: 'a launch viewing stand',
+  historicalFunFact: 'Worn on Skylab 4.',
+  marketingScenarios: [
+    { id: 'launch', title: 'Launch Day', description: 'Countdown', environmentPrompt: 'launch pad', clothingPrompt: 'flight jacket' },
+  ],
+  forensicVerification: [
+    { feature: 'Dial', observation: 'Pepsi bezel', status: 'Confirmed', details: 'Correct font', shot: 'dial' },
+  ],
+  associatedMovies: [{ movieTitle: 'Apollo 13', characterName: 'Jim', context: 'Mission control' }],
+  sources: [{ title: 'Archive', url: 'https://example.com' }],
+  confidence: 0.82,
+  alternates: [{ modelName: 'Seiko 6139-6005', releaseYear: '1970', confidence: 0.1, reason: 'Similar case' }],
+};
+
+const MARKET_PAYLOAD = {
+  currency: 'usd',
+  currentMinPrice: 1200,
+  currentMaxPrice: 1800,
+  priceHistory: [
+    { year: '2023', averagePrice: 1500 },
+    { year: '2021', averagePrice: 1100 },
+  ],
+  marketSentiment: 'Bullish',
+  investmentRating: 'A',
+  insight: 'Steady collector demand.',
+};
+
+describe('normalizeYear', () => {
+  it('reads decades and approximate years', () => {
+    expect(normalizeYear('1960s')).toBe('1960');
+    expect(normalizeYear('circa 1970s')).toBe('1970');
+    expect(normalizeYear('circa 1973')).toBe('1973');
+  });
+
+  it('rejects digits embedded in longer numbers and future years', () => {
+    expect(normalizeYear('619700')).toBeNull();
+    expect(normalizeYear(String(new Date().getFullYear() + 1))).toBeNull();
+    expect(normalizeYear('unknown')).toBeNull();
+  });
+});
+
+describe('validateWatchInfo', () => {
+  it('passes a complete payload through', () => {
+    const watch = validateWatchInfo(WATCH_PAYLOAD);
+    expect(watch.modelName).toBe('Seiko 6139-6002 Pogue');
+    expect(watch.forensicVerification[0].shot).toBe('dial');
+    expect(watch.alternates).toHaveLength(1);
+    expect(watch.confidence).toBe(0.82);
+  });
+
+  it('fills missing optional fields', () => {
+    const watch = validateWatchInfo({ modelName: 'Omega Speedmaster', releaseYear: '1960s' });
+    expect(watch.releaseYear).toBe('1960');
+    expect(watch.eraContext).toContain('1960');
+    expect(watch.marketingScenarios).toEqual([]);
+    expect(watch.forensicVerification).toEqual([]);
+    expect(watch.alternates).toEqual([]);
+    expect(watch.confidence).toBeUndefined();
+  });
+
+  it('repairs bad enum values', () => {
+    const watch = validateWatchInfo({
+      ...WATCH_PAYLOAD,
+      forensicVerification: [{ feature: 'Hands', observation: 'Relumed', status: 'Maybe', shot: 'strap' }],
+    });
+    expect(watch.forensicVerification[0].status).toBe('Variation');
+    expect(watch.forensicVerification[0].shot).toBeUndefined();
+  });
+
+  it('reads percentage confidence and drops alternates matching the top pick', () => {
+    const watch = validateWatchInfo({
+      ...WATCH_PAYLOAD,
+      confidence: '64%',
+      alternates: [...WATCH_PAYLOAD.alternates, { modelName: 'seiko 6139-6002 pogue', releaseYear: '1969', confidence: 0.5 }],
+    });
+    expect(watch.confidence).toBeCloseTo(0.64);
+    expect(watch.alternates.map(a => a.modelName)).toEqual(['Seiko 6139-6005']);
+  });
+
+  it('rejects a payload whose core identity cannot be recovered', () => {
+    expect(() => validateWatchInfo({ ...WATCH_PAYLOAD, modelName: '' })).toThrow(SchemaValidationError);
+    expect(() => validateWatchInfo({ ...WATCH_PAYLOAD, releaseYear: 'unknown' })).toThrow(SchemaValidationError);
+    expect(() => validateWatchInfo(null)).toThrow(SchemaValidationError);
+  });
+});
+
+describe('validateMarketAnalysis', () => {
+  it('normalizes currency and sorts the price history', () => {
+    const market = validateMarketAnalysis(MARKET_PAYLOAD);
+    expect(market.currency).toBe('USD');
+    expect(market.priceHistory.map(p => p.year)).toEqual(['2021', '2023']);
+  });
+
+  it('accepts an empty price history when a range is given', () => {
+    const market = validateMarketAnalysis({ ...MARKET_PAYLOAD, priceHistory: [] });
+    expect(market.priceHistory).toEqual([]);
+    expect(market.currentMinPrice).toBe(1200);
+  });
+
+  it('rebuilds a missing range from the latest price point', () => {
+    const market = validateMarketAnalysis({ ...MARKET_PAYLOAD, currentMinPrice: undefined, currentMaxPrice: undefined });
+    expect(market.currentMinPrice).toBe(1350);
+    expect(market.currentMaxPrice).toBe(1650);
+  });
+
+  it('maps currency symbols and keeps unreadable currencies unconvertible', () => {
+    const currencyOf = (currency: unknown) => validateMarketAnalysis({ ...MARKET_PAYLOAD, currency }).currency;
+    expect(currencyOf('€')).toBe('EUR');
+    expect(currencyOf('£')).toBe('GBP');
+    expect(currencyOf('¥')).toBe('JPY');
+    expect(currencyOf('yen')).toBe('JPY');
+    expect(currencyOf('$')).toBe(UNKNOWN_CURRENCY);
+    expect(currencyOf('dollars')).toBe(UNKNOWN_CURRENCY);
+    expect(currencyOf(undefined)).toBe(UNKNOWN_CURRENCY);
+    expect(convertAmount(1000, currencyOf('$'), 'USD')).toBeNull();
+  });
+
+  it('rejects a payload with neither a range nor a price history', () => {
+    expect(() => validateMarketAnalysis({ ...MARKET_PAYLOAD, currentMinPrice: null, currentMaxPrice: null, priceHistory: [] }))
+      .toThrow(SchemaValidationError);
+  });
+
+  it('repairs a bad sentiment, currency and swapped range', () => {
+    const market = validateMarketAnalysis({ ...MARKET_PAYLOAD, marketSentiment: 'Moonshot', currency: 'US$', currentMinPrice: '2,000', currentMaxPrice: 1000 });
+    expect(market.marketSentiment).toBe('Stable');
+    expect(market.currency).toBe('USD');
+    expect(market.currentMinPrice).toBe(1000);
+    expect(market.currentMaxPrice).toBe(2000);
+  });
+});
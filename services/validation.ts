@@ -0,0 +1,202 @@
+import { WatchInfo, MarketAnalysis, MarketingScenario, ForensicPoint, MovieAssociation, Source, ShotKind, IdentificationCandidate } from "../types";
+import { SchemaValidationError } from "./errors";
+import { parseCurrency } from "./currencyService";
+
+// --- SCHEMA LIMITS ---
+const MIN_YEAR = 1800;
+const MAX_SCENARIOS = 6;
+const MAX_FORENSIC_POINTS = 12;
+const MAX_MOVIES = 6;
+const MAX_ALTERNATES = 3;
+const MAX_PRICE_POINTS = 20;
+
+const FORENSIC_STATUSES: ForensicPoint['status'][] = ['Confirmed', 'Discrepancy', 'Variation'];
+const SHOT_KINDS: ShotKind[] = ['dial', 'caseback', 'side', 'movement'];
+const MARKET_SENTIMENTS: MarketAnalysis['marketSentiment'][] = ['Bullish', 'Bearish', 'Stable'];
+
+type Loose = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Loose =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asPrice = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? Number(value.replace(/[^0-9.-]/g, '')) : value;
+  return typeof num === 'number' && Number.isFinite(num) && num >= 0 ? num : null;
+};
+
+// Accepts 0-1 or a 0-100 percentage; anything else is treated as unknown.
+const asConfidence = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? Number(value.replace(/[^0-9.]/g, '')) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num) || num < 0 || num > 100) return null;
+  return num > 1 ? num / 100 : num;
+};
+
+const matchEnum = <T extends string>(value: unknown, allowed: T[]): T | null => {
+  const text = asText(value).toLowerCase();
+  return allowed.find(option => option.toLowerCase() === text) || null;
+};
+
+/**
+ * Extracts a plausible four-digit year (e.g. "circa 1973" -> "1973",
+ * "1960s" -> "1960").
+ */
+export const normalizeYear = (value: unknown): string | null => {
+  const match = asText(value).match(/(?<!\d)(1[89]\d{2}|20\d{2})(?!\d)/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  return year >= MIN_YEAR && year <= new Date().getFullYear() ? match[1] : null;
+};
+
+/**
+ * Generic era text built from the release year alone, for a dossier whose
+ * model-written descriptions are missing or belong to another reference.
+ */
+export const eraDefaults = (modelName: string, releaseYear: string) => ({
+  eraContext: `The world as it was in ${releaseYear}.`,
+  clothingDescription: `period-accurate everyday clothing from ${releaseYear}`,
+  environmentDescription: `a typical street scene from ${releaseYear}`,
+  historicalFunFact: `The ${modelName} first appeared in ${releaseYear}.`,
+});
+
+/**
+ * Checks an identification payload, repairing recoverable gaps (missing
+ * optional text, unknown enum values, malformed list items) and throwing a
+ * SchemaValidationError when the core identity cannot be recovered.
+ */
+export const validateWatchInfo = (raw: unknown): WatchInfo => {
+  if (!isObject(raw)) throw new SchemaValidationError('WatchInfo', ['payload is not an object']);
+
+  const issues: string[] = [];
+  const modelName = asText(raw.modelName);
+  if (!modelName) issues.push('modelName is missing');
+  const releaseYear = normalizeYear(raw.releaseYear);
+  if (!releaseYear) issues.push(`releaseYear "${asText(raw.releaseYear)}" is not a valid year`);
+  if (issues.length) throw new SchemaValidationError('WatchInfo', issues);
+
+  const marketingScenarios: MarketingScenario[] = asArray(raw.marketingScenarios)
+    .filter(isObject)
+    .map((item, idx) => ({
+      id: asText(item.id) || `scenario-${idx}`,
+      title: asText(item.title),
+      description: asText(item.description),
+      environmentPrompt: asText(item.environmentPrompt),
+      clothingPrompt: asText(item.clothingPrompt),
+    }))
+    .filter(item => item.title && (item.environmentPrompt || item.clothingPrompt))
+    .slice(0, MAX_SCENARIOS);
+
+  const forensicVerification: ForensicPoint[] = asArray(raw.forensicVerification)
+    .filter(isObject)
+    .map(item => ({
+      feature: asText(item.feature),
+      observation: asText(item.observation),
+      status: matchEnum(item.status, FORENSIC_STATUSES) || 'Variation',
+      details: asText(item.details),
+      shot: matchEnum(item.shot, SHOT_KINDS) || undefined,
+    }))
+    .filter(item => item.feature && item.observation)
+    .slice(0, MAX_FORENSIC_POINTS);
+
+  const associatedMovies: MovieAssociation[] = asArray(raw.associatedMovies)
+    .filter(isObject)
+    .map(item => ({
+      movieTitle: asText(item.movieTitle),
+      characterName: asText(item.characterName) || 'Unknown',
+      context: asText(item.context),
+    }))
+    .filter(item => item.movieTitle)
+    .slice(0, MAX_MOVIES);
+
+  const alternates: IdentificationCandidate[] = asArray(raw.alternates)
+    .filter(isObject)
+    .map(item => ({
+      modelName: asText(item.modelName),
+      releaseYear: normalizeYear(item.releaseYear) || '',
+      confidence: asConfidence(item.confidence) ?? 0,
+      reason: asText(item.reason),
+    }))
+    .filter(item => item.modelName && item.releaseYear && item.modelName.toLowerCase() !== modelName.toLowerCase())
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_ALTERNATES);
+
+  const sources: Source[] = asArray(raw.sources)
+    .filter(isObject)
+    .map(item => ({ title: asText(item.title), url: asText(item.url) }))
+    .filter(item => item.url);
+
+  const defaults = eraDefaults(modelName, releaseYear);
+  return {
+    modelName,
+    releaseYear,
+    eraContext: asText(raw.eraContext) || defaults.eraContext,
+    clothingDescription: asText(raw.clothingDescription) || defaults.clothingDescription,
+    environmentDescription: asText(raw.environmentDescription) || defaults.environmentDescription,
+    historicalFunFact: asText(raw.historicalFunFact) || defaults.historicalFunFact,
+    marketingScenarios,
+    forensicVerification,
+    associatedMovies,
+    sources,
+    casebackText: asText(raw.casebackText) || undefined,
+    confidence: asConfidence(raw.confidence) ?? undefined,
+    alternates,
+  };
+};
+
+/**
+ * Checks a market payload. Prices must be non-negative numbers; a missing
+ * range is rebuilt from the latest price point, and if neither exists the
+ * payload is rejected.
+ */
+export const validateMarketAnalysis = (raw: unknown): MarketAnalysis => {
+  if (!isObject(raw)) throw new SchemaValidationError('MarketAnalysis', ['payload is not an object']);
+
+  const priceHistory = asArray(raw.priceHistory)
+    .filter(isObject)
+    .map(item => ({ year: normalizeYear(item.year) || asText(item.year), averagePrice: asPrice(item.averagePrice) }))
+    .filter((item): item is { year: string; averagePrice: number } => Boolean(item.year) && item.averagePrice !== null)
+    .sort((a, b) => a.year.localeCompare(b.year))
+    .slice(-MAX_PRICE_POINTS);
+
+  let min = asPrice(raw.currentMinPrice);
+  let max = asPrice(raw.currentMaxPrice);
+  const latest = priceHistory[priceHistory.length - 1]?.averagePrice;
+
+  if (min === null && max === null) {
+    if (latest === undefined) {
+      throw new SchemaValidationError('MarketAnalysis', ['no current price range or price history']);
+    }
+    min = Math.round(latest * 0.9);
+    max = Math.round(latest * 1.1);
+  }
+  min = min ?? max!;
+  max = max ?? min;
+  if (min > max) [min, max] = [max, min];
+
+  return {
+    currency: parseCurrency(asText(raw.currency)),
+    currentMinPrice: min,
+    currentMaxPrice: max,
+    priceHistory,
+    marketSentiment: matchEnum(raw.marketSentiment, MARKET_SENTIMENTS) || 'Stable',
+    investmentRating: asText(raw.investmentRating) || 'Unrated',
+    insight: asText(raw.insight),
+  };
+};
+
+/**
+ * Checks generated advertisement copy; a headline is required.
+ */
+export const validateAdCopy = (raw: unknown): { headline: string; description: string } => {
+  if (!isObject(raw)) throw new SchemaValidationError('VintageAd', ['payload is not an object']);
+  const headline = asText(raw.headline);
+  if (!headline) throw new SchemaValidationError('VintageAd', ['headline is missing']);
+  return { headline, description: asText(raw.description) };
+};
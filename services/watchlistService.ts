@@ -0,0 +1,142 @@
+import { MarketAnalysis, PriceAlert, WatchlistItem } from "../types";
+import { createHistoryId } from "./historyService";
+import { convertAmount, formatMoney } from "./currencyService";
+import { queueMarketRefresh } from "./marketCache";
+
+// --- WATCHLIST PRESETS ---
+const WATCHLIST_KEY = 'chronoportal.watchlist';
+const MAX_ALERTS_PER_ITEM = 20;
+// References checked more recently than this are skipped when the app opens.
+const CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+const sameModel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const loadWatchlist = (): WatchlistItem[] => {
+  try {
+    const raw = localStorage.getItem(WATCHLIST_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveWatchlist = (items: WatchlistItem[]): WatchlistItem[] => {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(items));
+  } catch (err) {
+    console.warn("Watchlist write failed", err);
+  }
+  return items;
+};
+
+export const findWatchlistItem = (modelName: string): WatchlistItem | null =>
+  loadWatchlist().find(item => sameModel(item.modelName, modelName)) || null;
+
+/**
+ * Adds a reference, or moves the target of one already watched. A new target
+ * re-arms the alert so it can fire again.
+ */
+export const setWatchTarget = (modelName: string, targetPrice: number, currency: string): WatchlistItem[] => {
+  const items = loadWatchlist();
+  const existing = items.find(item => sameModel(item.modelName, modelName));
+  if (existing) {
+    return saveWatchlist(items.map(item => item === existing ? { ...item, targetPrice, currency, reached: false } : item));
+  }
+  const item: WatchlistItem = { modelName, targetPrice, currency, reached: false, alerts: [], addedAt: Date.now() };
+  return saveWatchlist([item, ...items]);
+};
+
+export const removeFromWatchlist = (modelName: string): WatchlistItem[] =>
+  saveWatchlist(loadWatchlist().filter(item => !sameModel(item.modelName, modelName)));
+
+/**
+ * Compares a market read against the item's target. An alert is raised only
+ * when the low end of the range reaches the target after a check that
+ * hadn't, so a price sitting under target doesn't alert on every check.
+ */
+export const evaluateTarget = (item: WatchlistItem, market: MarketAnalysis, now: number = Date.now()): { item: WatchlistItem; alert: PriceAlert | null } => {
+  const min = convertAmount(market.currentMinPrice, market.currency, item.currency);
+  const max = convertAmount(market.currentMaxPrice, market.currency, item.currency);
+  if (min === null || max === null) return { item: { ...item, lastCheckedAt: now }, alert: null };
+
+  const reached = min <= item.targetPrice;
+  const alert: PriceAlert | null = reached && !item.reached
+    ? { id: createHistoryId(), triggeredAt: now, targetPrice: item.targetPrice, rangeMin: min, rangeMax: max, currency: item.currency }
+    : null;
+  return {
+    item: {
+      ...item,
+      reached,
+      lastRange: { min, max },
+      lastCheckedAt: now,
+      alerts: alert ? [alert, ...item.alerts].slice(0, MAX_ALERTS_PER_ITEM) : item.alerts,
+    },
+    alert,
+  };
+};
+
+/**
+ * Asks for notification permission. Call from a user gesture; resolves false
+ * where notifications are unsupported or denied.
+ */
+export const requestAlertPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission !== 'default') return Notification.permission === 'granted';
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+const notifyPriceAlert = (item: WatchlistItem, alert: PriceAlert) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    new Notification(`${item.modelName} hit your target`, {
+      body: `Now ${formatMoney(alert.rangeMin, alert.currency)} - ${formatMoney(alert.rangeMax, alert.currency)}, target ${formatMoney(alert.targetPrice, alert.currency)}.`,
+      tag: `chronoportal-alert-${item.modelName}`,
+    });
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.warn("Price alert notification failed", err);
+  }
+};
+
+/**
+ * Applies a market read to the watched reference, stores the result and
+ * sends a local notification when it raises an alert. `checkedAt` is when
+ * the read was fetched, so a cached read doesn't pass for a fresh check.
+ * Returns null when the reference isn't watched.
+ */
+export const applyMarketToWatchlist = (
+  modelName: string,
+  market: MarketAnalysis,
+  checkedAt: number = Date.now()
+): { item: WatchlistItem; alert: PriceAlert | null } | null => {
+  const items = loadWatchlist();
+  const existing = items.find(item => sameModel(item.modelName, modelName));
+  if (!existing) return null;
+  const result = evaluateTarget(existing, market, checkedAt);
+  saveWatchlist(items.map(item => item === existing ? result.item : item));
+  if (result.alert) notifyPriceAlert(result.item, result.alert);
+  return result;
+};
+
+/**
+ * Re-runs market analysis for every reference not checked within
+ * CHECK_INTERVAL_MS, through the throttled market queue. `onChecked` runs
+ * after each stored result. Returns a function that stops the check.
+ */
+export const checkWatchlist = (
+  onAlert: (item: WatchlistItem, alert: PriceAlert) => void,
+  onChecked?: () => void
+): (() => void) => {
+  const now = Date.now();
+  const due = loadWatchlist().filter(item => !item.lastCheckedAt || now - item.lastCheckedAt > CHECK_INTERVAL_MS);
+  if (due.length === 0) return () => {};
+  return queueMarketRefresh(
+    due.map(item => item.modelName),
+    (modelName, result) => {
+      const applied = applyMarketToWatchlist(modelName, result.market, result.fetchedAt);
+      if (!applied) return;
+      if (applied.alert) onAlert(applied.item, applied.alert);
+      onChecked?.();
+    }
+  );
+};
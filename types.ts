@@ -12,13 +12,22 @@ export interface MarketingScenario {
   clothingPrompt: string;
 }
 
-export interface UserPreferences {
-  gender: string;
-  age: string;
-  country: string;
+export type AgeBracket = 'teen' | 'twenties' | 'thirties' | 'forties' | 'fifties' | 'sixties-plus';
+
+// A saved traveller profile; the active one shapes every era render.
+export interface Persona {
+  id: string;
+  name: string;
+  ageBracket: AgeBracket;
+  region: string;
+  styleNotes: string;
+  selfie?: string;
   customYear?: string;
 }
 
+// "fast" identifies from the photo alone; "forensic" generates the blueprint first.
+export type PipelineMode = 'fast' | 'forensic';
+
 export interface MarketAnalysis {
   currency: string;
   currentMinPrice: number;
@@ -29,11 +38,21 @@ export interface MarketAnalysis {
   insight: string;
 }
 
+// The views in a guided multi-shot capture. The dial shot is the primary photo.
+export type ShotKind = 'dial' | 'caseback' | 'side' | 'movement';
+
+export interface SupplementaryShot {
+  kind: ShotKind;
+  base64: string;
+}
+
 export interface ForensicPoint {
   feature: string;
   observation: string;
   status: 'Confirmed' | 'Discrepancy' | 'Variation';
   details: string;
+  // Which capture the observation was read from, when several were sent.
+  shot?: ShotKind;
 }
 
 export interface MovieAssociation {
@@ -42,6 +61,15 @@ export interface MovieAssociation {
   context: string;
 }
 
+// A reference the watch might be instead of the top pick.
+export interface IdentificationCandidate {
+  modelName: string;
+  releaseYear: string;
+  // 0-1
+  confidence: number;
+  reason: string;
+}
+
 export interface WatchInfo {
   modelName: string;
   releaseYear: string;
@@ -52,26 +80,117 @@ export interface WatchInfo {
   marketingScenarios: MarketingScenario[];
   forensicVerification: ForensicPoint[];
   associatedMovies: MovieAssociation[];
+  // Serial or caseback engraving as read from the photos or typed by the user; fed to the serial decoder.
+  casebackText?: string;
+  // Model's confidence in `modelName`, 0-1. Absent on identifications made before scoring existed.
+  confidence?: number;
+  // Other plausible references, most likely first.
+  alternates?: IdentificationCandidate[];
   sources?: Source[];
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   IDENTIFYING = 'IDENTIFYING',
+  CONFIRMING = 'CONFIRMING',
   TRANSFORMING = 'TRANSFORMING',
   RESULT = 'RESULT',
   INVESTOR = 'INVESTOR',
+  HISTORY = 'HISTORY',
+  BATCH = 'BATCH',
+  COLLECTION = 'COLLECTION',
+  PORTFOLIO = 'PORTFOLIO',
+  WATCHLIST = 'WATCHLIST',
   ERROR = 'ERROR'
 }
 
+// One generated take of a look (base era, scenario or movie) kept for the session.
+export interface EraVariant {
+  id: string;
+  lookKey: string;
+  lookLabel: string;
+  image: string;
+  isFavorite: boolean;
+}
+
 export interface HistoryItem {
   id: string;
   timestamp: number;
   originalImage: string;
+  blueprintImage?: string;
   transformedImage: string;
   watch: WatchInfo;
 }
 
+export type WatchCondition = 'Unworn' | 'Excellent' | 'Very Good' | 'Good' | 'Fair' | 'Project';
+
+export interface ServiceRecord {
+  id: string;
+  date: string;
+  provider: string;
+  work: string;
+  cost?: number;
+}
+
+// One owned watch. Keyed by the identified modelName, so rescans of the same reference share a record.
+export interface CollectionEntry {
+  modelName: string;
+  releaseYear: string;
+  thumbnail?: string;
+  purchasePrice?: number;
+  // ISO code of purchasePrice; older entries without one were recorded in USD.
+  purchaseCurrency?: string;
+  purchaseDate?: string;
+  condition: WatchCondition;
+  serviceHistory: ServiceRecord[];
+  notes: string;
+  // HistoryItem ids of scans of this piece.
+  scanIds: string[];
+  market?: MarketAnalysis;
+  marketUpdatedAt?: number;
+  addedAt: number;
+  updatedAt: number;
+}
+
+// Raised when a watched reference's price range first reaches its target.
+export interface PriceAlert {
+  id: string;
+  triggeredAt: number;
+  targetPrice: number;
+  rangeMin: number;
+  rangeMax: number;
+  currency: string;
+}
+
+// A reference the user wants to buy once its price range drops to the target.
+export interface WatchlistItem {
+  modelName: string;
+  targetPrice: number;
+  // ISO code of targetPrice; market ranges are converted into it.
+  currency: string;
+  // Whether the last check found the range at or below target; alerts fire on the change.
+  reached: boolean;
+  lastRange?: { min: number; max: number };
+  lastCheckedAt?: number;
+  alerts: PriceAlert[];
+  addedAt: number;
+}
+
+export type BatchStatus = 'queued' | 'reading' | 'identifying' | 'done' | 'error';
+
+// One uploaded photo moving through the batch catalog.
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  thumbnail?: string;
+  base64?: string;
+  partialModelName?: string;
+  watch?: WatchInfo;
+  fromCache?: boolean;
+  error?: string;
+}
+
 // Added for vintage advertisements feature
 export interface VintageAd {
   id: string;
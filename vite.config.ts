@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.GEMINI_IDENTIFICATION_MODEL': JSON.stringify(env.GEMINI_IDENTIFICATION_MODEL),
+        'process.env.GEMINI_RESEARCH_MODEL': JSON.stringify(env.GEMINI_RESEARCH_MODEL),
+        'process.env.GEMINI_GENERATION_MODEL': JSON.stringify(env.GEMINI_GENERATION_MODEL),
+        'process.env.GEMINI_LIVE_MODEL': JSON.stringify(env.GEMINI_LIVE_MODEL)
       },
       resolve: {
         alias: {